@@ -0,0 +1,52 @@
+import { describeAnalysisError } from "@/lib/analysis-errors"
+import type { AnalysisStreamEvent } from "@/lib/analysis-progress"
+import { analyzeContract } from "@/lib/analyze-contract"
+import { logError } from "@/lib/log"
+import { readFormDataBody } from "@/lib/request-body"
+import {
+  MAX_TOTAL_UPLOAD_BYTES,
+  MAX_UPLOAD_BODY_BYTES,
+  UploadError,
+  formatFileSize,
+  readContractFiles,
+} from "@/lib/uploads"
+
+/**
+ * Analyzes the pages posted by the analyzer form and responds with
+ * newline-delimited JSON progress events, ending with a `result` or `error`
+ * event. Bodies larger than the upload budget are refused unread.
+ */
+export async function POST(request: Request) {
+  const encoder = new TextEncoder()
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: AnalysisStreamEvent) => controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`))
+
+      try {
+        // A truncated or malformed body would otherwise surface as a "parse" error, which reads as an unreadable contract
+        const formData = await readFormDataBody(request, MAX_UPLOAD_BODY_BYTES).catch(() => {
+          throw new UploadError("The upload could not be read. Please try again.")
+        })
+        if (!formData) {
+          throw new UploadError(`Combined file size exceeds the ${formatFileSize(MAX_TOTAL_UPLOAD_BYTES)} limit`)
+        }
+        const state = formData.get("state") as string | null
+        const reanalyze = formData.get("reanalyze") === "true"
+        const files = await readContractFiles(formData)
+
+        const { data, meta } = await analyzeContract(files, { state, reanalyze, onProgress: send })
+        send({ type: "result", data, meta })
+      } catch (error) {
+        logError("Error in analyze stream:", error)
+        send({ type: "error", ...describeAnalysisError(error) })
+      } finally {
+        controller.close()
+      }
+    },
+  })
+
+  return new Response(stream, {
+    headers: { "Content-Type": "application/x-ndjson; charset=utf-8", "Cache-Control": "no-cache" },
+  })
+}
@@ -0,0 +1,28 @@
+import { EXPORT_SCHEMA_VERSION, exportFileName, exportFormatSchema, exportRequestSchema, renderExport } from "@/lib/exports"
+import { readJsonBody } from "@/lib/request-body"
+
+/**
+ * Converts a posted analysis to JSON, CSV or Markdown, chosen with the
+ * `format` query parameter, and returns it as a download.
+ */
+export async function POST(request: Request) {
+  const format = exportFormatSchema.safeParse(new URL(request.url).searchParams.get("format") ?? "json")
+  if (!format.success) {
+    return Response.json({ error: "Unknown export format. Use json, csv or markdown." }, { status: 400 })
+  }
+
+  const parsed = exportRequestSchema.safeParse(await readJsonBody(request))
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid export request" }, { status: 400 })
+  }
+
+  const { body, contentType, extension } = renderExport(format.data, parsed.data)
+  return new Response(body, {
+    headers: {
+      "Content-Type": `${contentType}; charset=utf-8`,
+      "Content-Disposition": `attachment; filename="${exportFileName(parsed.data.name, `.${extension}`)}"`,
+      "X-Export-Schema-Version": EXPORT_SCHEMA_VERSION,
+      "Cache-Control": "no-store",
+    },
+  })
+}
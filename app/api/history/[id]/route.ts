@@ -0,0 +1,55 @@
+import { z } from "zod"
+import { getHistoryStore, historyNameSchema, historyOwner } from "@/lib/history"
+import { logError } from "@/lib/log"
+import { readJsonBody } from "@/lib/request-body"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+const disabled = () => Response.json({ error: "Server-side history is not enabled" }, { status: 404 })
+const notFound = () => Response.json({ error: "Analysis not found" }, { status: 404 })
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const store = getHistoryStore()
+  if (!store) return disabled()
+
+  const analysis = await store.get(await historyOwner(), (await params).id)
+  return analysis ? Response.json(analysis) : notFound()
+}
+
+/** Renames a saved analysis */
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const store = getHistoryStore()
+  if (!store) return disabled()
+
+  const parsed = z.object({ name: historyNameSchema }).safeParse(await readJsonBody(request))
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid name" }, { status: 400 })
+  }
+
+  try {
+    const owner = await historyOwner()
+    const analysis = await store.get(owner, (await params).id)
+    if (!analysis) return notFound()
+
+    const renamed = { ...analysis, name: parsed.data.name, updatedAt: new Date().toISOString() }
+    await store.put(owner, renamed)
+    return Response.json(renamed)
+  } catch (error) {
+    logError("Error renaming analysis:", error)
+    return Response.json({ error: "Could not rename the analysis" }, { status: 500 })
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const store = getHistoryStore()
+  if (!store) return disabled()
+
+  try {
+    return (await store.delete(await historyOwner(), (await params).id)) ? new Response(null, { status: 204 }) : notFound()
+  } catch (error) {
+    logError("Error deleting analysis:", error)
+    return Response.json({ error: "Could not delete the analysis" }, { status: 500 })
+  }
+}
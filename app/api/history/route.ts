@@ -0,0 +1,40 @@
+import { getHistoryStore, historyOwner, savedAnalysisSchema } from "@/lib/history"
+import { logError } from "@/lib/log"
+import { readJsonBody } from "@/lib/request-body"
+
+const disabled = () => Response.json({ error: "Server-side history is not enabled" }, { status: 404 })
+
+/**
+ * Lists this browser's saved analyses, newest first. Responds 404 when
+ * `ANALYSIS_HISTORY` is off.
+ */
+export async function GET() {
+  const store = getHistoryStore()
+  if (!store) return disabled()
+
+  try {
+    return Response.json(await store.list(await historyOwner()))
+  } catch (error) {
+    logError("Error listing saved analyses:", error)
+    return Response.json({ error: "Could not load the history" }, { status: 500 })
+  }
+}
+
+/** Saves an analysis, replacing any earlier copy with the same id this browser saved */
+export async function POST(request: Request) {
+  const store = getHistoryStore()
+  if (!store) return disabled()
+
+  const parsed = savedAnalysisSchema.safeParse(await readJsonBody(request))
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid analysis" }, { status: 400 })
+  }
+
+  try {
+    await store.put(await historyOwner(), parsed.data)
+    return Response.json(parsed.data, { status: 201 })
+  } catch (error) {
+    logError("Error saving analysis:", error)
+    return Response.json({ error: "Could not save the analysis" }, { status: 500 })
+  }
+}
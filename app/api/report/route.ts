@@ -0,0 +1,47 @@
+import { z } from "zod"
+import { exportFileName, exportRequestSchema } from "@/lib/exports"
+import { logError } from "@/lib/log"
+import { renderAnalysisReport } from "@/lib/report"
+import { readJsonBody } from "@/lib/request-body"
+
+const reportRequestSchema = exportRequestSchema.extend({
+  /** Data URL of the first contract page */
+  thumbnail: z
+    .string()
+    .regex(/^data:image\/(?:jpeg|png);base64,/)
+    .nullable()
+    .optional(),
+})
+
+function decodeThumbnail(dataUrl: string | null | undefined) {
+  if (!dataUrl) return null
+  const [header, base64] = dataUrl.split(",", 2)
+  return {
+    bytes: new Uint8Array(Buffer.from(base64, "base64")),
+    type: header.includes("image/png") ? ("image/png" as const) : ("image/jpeg" as const),
+  }
+}
+
+/** Renders the posted analysis as a branded PDF report and returns it as a download */
+export async function POST(request: Request) {
+  const parsed = reportRequestSchema.safeParse(await readJsonBody(request))
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid report request" }, { status: 400 })
+  }
+
+  try {
+    const { name, results, meta, thumbnail } = parsed.data
+    const pdf = await renderAnalysisReport({ name, results, meta, thumbnail: decodeThumbnail(thumbnail) })
+
+    return new Response(pdf, {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${exportFileName(name, "-report.pdf")}"`,
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    logError("Error rendering report:", error)
+    return Response.json({ error: "The report could not be created" }, { status: 500 })
+  }
+}
@@ -0,0 +1,24 @@
+import { requireApiKey } from "@/lib/api/auth"
+import { ApiError, apiErrorResponse } from "@/lib/api/errors"
+import { getApiAnalysis } from "@/lib/api/store"
+import { logError } from "@/lib/log"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    requireApiKey(request)
+    const analysis = await getApiAnalysis((await params).id)
+    if (!analysis) {
+      throw new ApiError(404, "not_found", "Analysis not found")
+    }
+    return Response.json(analysis)
+  } catch (error) {
+    if (!(error instanceof ApiError)) {
+      logError("Error in GET /api/v1/analyses/:id:", error)
+    }
+    return apiErrorResponse(error)
+  }
+}
@@ -0,0 +1,32 @@
+import { analyzeContract } from "@/lib/analyze-contract"
+import { requireApiKey } from "@/lib/api/auth"
+import { ApiError, apiErrorResponse } from "@/lib/api/errors"
+import { readAnalysisInput } from "@/lib/api/input"
+import { storeApiAnalysis } from "@/lib/api/store"
+import { logError } from "@/lib/log"
+import { UploadError } from "@/lib/uploads"
+
+/**
+ * Analyzes a contract sent as a multipart upload or as JSON with base64 data
+ * or URLs, stores the result and responds with it once it is finished.
+ * Errors use the analyzer's messages with a stable `code`; see `/api/v1/openapi.json`.
+ */
+export async function POST(request: Request) {
+  try {
+    requireApiKey(request)
+    const input = await readAnalysisInput(request)
+    const generated = await analyzeContract(input.files, { state: input.state, reanalyze: input.reanalyze })
+    const analysis = await storeApiAnalysis(input, generated)
+
+    return Response.json(analysis, {
+      status: 201,
+      headers: { Location: `/api/v1/analyses/${analysis.id}` },
+    })
+  } catch (error) {
+    // Rejected requests are the client's problem, so only failures of the analysis itself are logged
+    if (!(error instanceof ApiError || error instanceof UploadError)) {
+      logError("Error in POST /api/v1/analyses:", error)
+    }
+    return apiErrorResponse(error)
+  }
+}
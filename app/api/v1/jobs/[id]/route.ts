@@ -0,0 +1,26 @@
+import { requireApiKey } from "@/lib/api/auth"
+import { ApiError, apiErrorResponse } from "@/lib/api/errors"
+import { getJobQueue } from "@/lib/jobs"
+import { logError } from "@/lib/log"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/** The job's status; `Retry-After` suggests when to poll again while it is still queued or running */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    requireApiKey(request)
+    const job = await getJobQueue().get((await params).id)
+    if (!job) {
+      throw new ApiError(404, "not_found", "Job not found")
+    }
+    const pending = job.status === "queued" || job.status === "running"
+    return Response.json(job, { headers: { "Cache-Control": "no-store", ...(pending && { "Retry-After": "2" }) } })
+  } catch (error) {
+    if (!(error instanceof ApiError)) {
+      logError("Error in GET /api/v1/jobs/:id:", error)
+    }
+    return apiErrorResponse(error)
+  }
+}
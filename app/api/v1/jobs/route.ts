@@ -0,0 +1,38 @@
+import { requireApiKey } from "@/lib/api/auth"
+import { ApiError, apiErrorResponse } from "@/lib/api/errors"
+import { assertPublicUrl, readAnalysisInput } from "@/lib/api/input"
+import { getJobQueue, webhookSecretFromEnv } from "@/lib/jobs"
+import { logError } from "@/lib/log"
+import { UploadError } from "@/lib/uploads"
+
+async function checkWebhookUrl(url: string) {
+  if (!webhookSecretFromEnv()) {
+    throw new ApiError(400, "invalid_request", "Webhooks are not enabled on this server")
+  }
+  try {
+    await assertPublicUrl(new URL(url))
+  } catch (error) {
+    const message = error instanceof UploadError ? error.message : "Invalid URL"
+    throw new ApiError(400, "invalid_request", "Invalid webhook URL", [{ path: "webhookUrl", message }])
+  }
+}
+
+/**
+ * Queues an analysis and responds right away with the job, for contracts that
+ * take longer than a request may. Takes the same body as `POST /api/v1/analyses`
+ * plus an optional `webhookUrl`; poll `GET /api/v1/jobs/:id` or wait for the webhook.
+ */
+export async function POST(request: Request) {
+  try {
+    requireApiKey(request)
+    const input = await readAnalysisInput(request, { webhook: true, checkWebhookUrl })
+
+    const job = await getJobQueue().enqueue(input)
+    return Response.json(job, { status: 202, headers: { Location: `/api/v1/jobs/${job.id}` } })
+  } catch (error) {
+    if (!(error instanceof ApiError || error instanceof UploadError)) {
+      logError("Error in POST /api/v1/jobs:", error)
+    }
+    return apiErrorResponse(error)
+  }
+}
@@ -0,0 +1,6 @@
+import { buildOpenApiDocument } from "@/lib/api/openapi"
+
+/** The OpenAPI description of the public API. Public, so client generators can fetch it without a key. */
+export function GET() {
+  return Response.json(buildOpenApiDocument(), { headers: { "Cache-Control": "public, max-age=3600" } })
+}
@@ -0,0 +1,145 @@
+"use client"
+
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts"
+import { Download } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { AnalysisResults } from "@/lib/analysis-schema"
+import { addOnInterest, amortizationSchedule, loanInputs, scheduleToCsv } from "@/lib/amortization"
+import { downloadBlob } from "@/lib/download"
+import { formatCurrency } from "@/lib/finance"
+
+const chartConfig = {
+  cumulativePrincipal: { label: "Principal paid", color: "#3b82f6" },
+  cumulativeInterest: { label: "Interest paid", color: "#f59e0b" },
+} satisfies ChartConfig
+
+/** Month-by-month loan schedule with a cumulative interest vs. principal chart and the cost of financing add-ons */
+export function AmortizationSchedule({ results }: { results: AnalysisResults }) {
+  const inputs = loanInputs(results)
+  if (!inputs) {
+    return (
+      <p className="text-sm text-gray-400">
+        {results.contractType === "lease"
+          ? "Leases are not amortized like a loan, so there is no schedule to show."
+          : "The schedule needs the amount financed, APR and a term in whole months. Correct any missing or misread figure on the Terms tab to see it."}
+      </p>
+    )
+  }
+
+  const schedule = amortizationSchedule(inputs)
+  const last = schedule[schedule.length - 1]
+  const addOns = addOnInterest(results, inputs)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between">
+        <div>
+          <h3 className="text-lg font-medium text-gray-200">Amortization</h3>
+          <p className="text-xs text-gray-500">
+            {formatCurrency(inputs.principal)} at {inputs.apr}% over {inputs.termMonths} months
+          </p>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() =>
+            downloadBlob(new Blob([scheduleToCsv(schedule)], { type: "text/csv" }), "amortization-schedule.csv")
+          }
+          className="text-gray-400 hover:bg-gray-800 hover:text-gray-200"
+        >
+          <Download className="mr-2 h-4 w-4" />
+          Export CSV
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-center">
+        {[
+          { label: "Monthly payment", value: schedule[0].payment },
+          { label: "Total interest", value: last.cumulativeInterest },
+          { label: "Total of payments", value: last.cumulativePrincipal + last.cumulativeInterest },
+        ].map(({ label, value }) => (
+          <div key={label} className="rounded-md bg-gray-800 p-2">
+            <div className="font-medium text-gray-200">{formatCurrency(value)}</div>
+            <div className="text-xs text-gray-400">{label}</div>
+          </div>
+        ))}
+      </div>
+
+      <ChartContainer config={chartConfig} className="aspect-auto h-[220px] w-full">
+        <AreaChart data={schedule} margin={{ left: 8, right: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="month" tickLine={false} axisLine={false} />
+          <YAxis
+            tickLine={false}
+            axisLine={false}
+            width={48}
+            tickFormatter={(value: number) => `$${Math.round(value / 1000)}k`}
+          />
+          <ChartTooltip
+            content={<ChartTooltipContent labelFormatter={(_, payload) => `Month ${payload[0]?.payload.month}`} />}
+          />
+          <ChartLegend content={<ChartLegendContent />} />
+          <Area
+            dataKey="cumulativePrincipal"
+            type="monotone"
+            stroke="var(--color-cumulativePrincipal)"
+            fill="var(--color-cumulativePrincipal)"
+            fillOpacity={0.3}
+          />
+          <Area
+            dataKey="cumulativeInterest"
+            type="monotone"
+            stroke="var(--color-cumulativeInterest)"
+            fill="var(--color-cumulativeInterest)"
+            fillOpacity={0.3}
+          />
+        </AreaChart>
+      </ChartContainer>
+
+      {addOns && (
+        <div className="rounded-md border border-yellow-900/50 bg-yellow-950/20 p-3 text-sm text-gray-300">
+          Financing {formatCurrency(addOns.addOns)} of add-ons adds{" "}
+          <span className="font-medium text-yellow-400">
+            {formatCurrency(addOns.withAddOns - addOns.withoutAddOns)}
+          </span>{" "}
+          in interest. Without them the payment would be {formatCurrency(addOns.paymentWithoutAddOns)} and total
+          interest {formatCurrency(addOns.withoutAddOns)}.
+        </div>
+      )}
+
+      <div className="max-h-[300px] overflow-y-auto rounded-md border border-gray-800">
+        <Table>
+          <TableHeader>
+            <TableRow className="border-gray-800 hover:bg-transparent">
+              <TableHead className="text-gray-400">Month</TableHead>
+              <TableHead className="text-right text-gray-400">Payment</TableHead>
+              <TableHead className="text-right text-gray-400">Principal</TableHead>
+              <TableHead className="text-right text-gray-400">Interest</TableHead>
+              <TableHead className="text-right text-gray-400">Balance</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {schedule.map((row) => (
+              <TableRow key={row.month} className="border-gray-800 text-gray-300 hover:bg-gray-800/50">
+                <TableCell>{row.month}</TableCell>
+                <TableCell className="text-right">{formatCurrency(row.payment)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(row.principal)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(row.interest)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(row.balance)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
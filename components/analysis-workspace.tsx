@@ -0,0 +1,57 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { ContractAnalyzer } from "@/components/contract-analyzer"
+import { HistorySidebar } from "@/components/history-sidebar"
+import { SidebarInset, SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar"
+import { useAnalysisHistory, type AnalysisDraft } from "@/hooks/use-analysis-history"
+import { useToast } from "@/hooks/use-toast"
+import type { StoredAnalysis } from "@/lib/history-db"
+
+/** The analyzer alongside a sidebar of saved analyses that can be reopened */
+export function AnalysisWorkspace({ children }: { children: React.ReactNode }) {
+  const history = useAnalysisHistory()
+  const [opened, setOpened] = useState<StoredAnalysis | null>(null)
+  const [activeId, setActiveId] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  const openAnalysis = async (id: string) => {
+    const analysis = await history.open(id)
+    if (!analysis) {
+      toast({ title: "Analysis not found", description: "It may have been deleted.", variant: "destructive" })
+      return
+    }
+    setOpened(analysis)
+    setActiveId(id)
+  }
+
+  const saveAnalysis = (draft: AnalysisDraft) => {
+    setActiveId(draft.id)
+    history.save(draft)
+  }
+
+  const deleteAnalysis = (id: string) => {
+    if (id === activeId) setActiveId(null)
+    history.remove(id)
+  }
+
+  return (
+    <SidebarProvider>
+      <HistorySidebar
+        entries={history.entries}
+        activeId={activeId}
+        onOpen={openAnalysis}
+        onRename={history.rename}
+        onDelete={deleteAnalysis}
+      />
+      <SidebarInset className="bg-gray-950">
+        <div className="container max-w-5xl mx-auto py-8 px-4">
+          <SidebarTrigger className="mb-4 text-gray-400 hover:bg-gray-800 hover:text-gray-200" />
+          {children}
+          <ContractAnalyzer opened={opened} onSave={saveAnalysis} onReset={() => setActiveId(null)} />
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  )
+}
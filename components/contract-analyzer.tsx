@@ -1,133 +1,404 @@
 "use client"
 
 import type React from "react"
-import { useState, useRef } from "react"
-import { Upload, FileText, AlertTriangle, X, Loader2, CheckCircle } from "lucide-react"
-import Image from "next/image"
+import { useEffect, useState } from "react"
+import {
+  Upload,
+  FileText,
+  AlertTriangle,
+  X,
+  Loader2,
+  CheckCircle,
+  RefreshCw,
+  Circle,
+  SlidersHorizontal,
+  EyeOff,
+  Columns3,
+  FileDown,
+} from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { AmortizationSchedule } from "@/components/amortization-schedule"
+import { ContractComparison } from "@/components/contract-comparison"
+import { ContractPreview, type HighlightRegion } from "@/components/contract-preview"
+import { EditableValue } from "@/components/editable-value"
+import { ImageEditor } from "@/components/image-editor"
+import { PageStrip, type ContractPage } from "@/components/page-strip"
+import { PdfViewer } from "@/components/pdf-viewer"
+import { RedactionEditor, type RedactionResult } from "@/components/redaction-editor"
+import { ScoreBreakdown } from "@/components/score-breakdown"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
 import { Progress } from "@/components/ui/progress"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { analyzeContractAction } from "@/app/actions"
+import type { AnalysisMeta } from "@/lib/analysis-pipeline"
+import type { ImageEditSettings } from "@/lib/image-processing"
+import { ANALYSIS_STAGES, readAnalysisStream, type AnalysisStage } from "@/lib/analysis-progress"
+import type { ComparedContract } from "@/lib/comparison"
+import type { StoredAnalysis } from "@/lib/history-db"
+import {
+  toNumberOrNull,
+  type AnalysisResults,
+  type ContractTerm,
+  type LeaseTerms,
+  type SourceLocation,
+  type TilaDisclosure,
+} from "@/lib/analysis-schema"
+import { downloadBlob } from "@/lib/download"
+import { exportFileName, renderExport, type ExportFormat } from "@/lib/exports"
+import { formatCurrency } from "@/lib/finance"
+import { renderThumbnail } from "@/lib/image-canvas"
+import { moneyFactorToApr } from "@/lib/lease"
+import { supportedStates } from "@/lib/rules"
+import { scoreContract } from "@/lib/scoring"
+import { applyFigureEdit, applyTermEdit, figurePath, type FigureField } from "@/lib/term-edits"
+import {
+  ACCEPTED_FILE_TYPES,
+  MAX_PAGES,
+  MAX_TOTAL_UPLOAD_BYTES,
+  formatFileSize,
+  isSupportedFileType,
+} from "@/lib/uploads"
+import type { AnalysisDraft } from "@/hooks/use-analysis-history"
 import { useToast } from "@/hooks/use-toast"
 
-export function ContractAnalyzer() {
-  const [file, setFile] = useState<File | null>(null)
-  const [preview, setPreview] = useState<string | null>(null)
+const tilaFields: { key: keyof TilaDisclosure; label: string }[] = [
+  { key: "apr", label: "Annual Percentage Rate" },
+  { key: "financeCharge", label: "Finance Charge" },
+  { key: "amountFinanced", label: "Amount Financed" },
+  { key: "totalOfPayments", label: "Total of Payments" },
+  { key: "totalSalePrice", label: "Total Sale Price" },
+]
+
+const leaseFields: { key: keyof LeaseTerms; label: string; format: (value: number) => string }[] = [
+  { key: "capitalizedCost", label: "Capitalized Cost", format: formatCurrency },
+  { key: "capCostReduction", label: "Cap Cost Reduction", format: formatCurrency },
+  { key: "residualValue", label: "Residual Value", format: formatCurrency },
+  {
+    key: "moneyFactor",
+    label: "Money Factor",
+    format: (value) => `${value} (≈ ${moneyFactorToApr(value).toFixed(2)}% APR)`,
+  },
+  { key: "termMonths", label: "Term", format: (value) => `${value} months` },
+  { key: "monthlyPayment", label: "Monthly Payment", format: formatCurrency },
+  { key: "acquisitionFee", label: "Acquisition Fee", format: formatCurrency },
+  { key: "dispositionFee", label: "Disposition Fee", format: formatCurrency },
+  { key: "mileageAllowance", label: "Mileage Allowance", format: (value) => `${value.toLocaleString("en-US")} mi/yr` },
+  { key: "excessMileageRate", label: "Excess Mileage", format: (value) => `${formatCurrency(value)}/mi` },
+]
+
+const describePageSources = (pages: NonNullable<AnalysisMeta["pages"]>) => {
+  const list = (method: "text" | "vision") =>
+    pages
+      .filter((page) => page.method === method)
+      .map((page) => page.page)
+      .join(", ")
+
+  const text = list("text")
+  const vision = list("vision")
+  return [text && `Read from the PDF text layer: page ${text}`, vision && `Read from the page image: page ${vision}`]
+    .filter(Boolean)
+    .join(" · ")
+}
+
+interface ContractAnalyzerProps {
+  /** A saved analysis to show in place of whatever is on screen */
+  opened?: StoredAnalysis | null
+  /** Called with every finished or corrected analysis so it can be kept in the history */
+  onSave?: (analysis: AnalysisDraft) => void
+  onReset?: () => void
+}
+
+export function ContractAnalyzer({ opened, onSave, onReset }: ContractAnalyzerProps = {}) {
+  const [pages, setPages] = useState<ContractPage[]>([])
+  const [activePageId, setActivePageId] = useState<string | null>(null)
+  const [pdfPage, setPdfPage] = useState(1)
+  const [editingPageId, setEditingPageId] = useState<string | null>(null)
+  const [redactingPageId, setRedactingPageId] = useState<string | null>(null)
+  const [analyzedRedacted, setAnalyzedRedacted] = useState(false)
+  const [analyzedState, setAnalyzedState] = useState<string | null>(null)
   const [isAnalyzing, setIsAnalyzing] = useState(false)
   const [results, setResults] = useState<AnalysisResults | null>(null)
-  const [progress, setProgress] = useState(0)
-  const progressInterval = useRef<NodeJS.Timeout | null>(null)
+  const [meta, setMeta] = useState<AnalysisMeta | null>(null)
+  const [stage, setStage] = useState<{ id: AnalysisStage; detail?: string } | null>(null)
+  const [partialTerms, setPartialTerms] = useState<ContractTerm[]>([])
+  const [tab, setTab] = useState("summary")
+  const [highlightId, setHighlightId] = useState<string | null>(null)
+  const [state, setState] = useState<string | null>(null)
+  const [comparison, setComparison] = useState<ComparedContract[]>([])
+  const [historyId, setHistoryId] = useState<string | null>(null)
+  const [isExporting, setIsExporting] = useState(false)
   const { toast } = useToast()
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0] || null
-    setFile(selectedFile)
+  const activePage = pages.find((page) => page.id === activePageId) ?? pages[0] ?? null
+  const totalSize = pages.reduce((sum, page) => sum + page.file.size, 0)
+  const stageIndex = stage ? ANALYSIS_STAGES.findIndex((s) => s.id === stage.id) : -1
+  const progress = stageIndex < 0 ? 0 : ((stageIndex + 0.5) / ANALYSIS_STAGES.length) * 100
+
+  // Maps an analysis page number back to the uploaded file and the page within it
+  const uploadedPageFor = (location: SourceLocation) => {
+    const source = meta?.pages?.find((page) => page.page === location.page)
+    return source ? { file: source.file, filePage: source.filePage } : { file: location.page - 1, filePage: 1 }
+  }
+
+  const editingPage = pages.find((page) => page.id === editingPageId) ?? null
+  const redactingPage = pages.find((page) => page.id === redactingPageId) ?? null
+  const activePageIndex = activePage ? pages.indexOf(activePage) : -1
+  const isPdf = activePage?.file.type === "application/pdf"
+  const highlightRegions: HighlightRegion[] = results
+    ? [
+        ...results.contractTerms.map((term, index) => ({
+          id: `term-${index}`,
+          label: term.term,
+          location: term.location,
+        })),
+        ...results.potentialIssues.map((issue, index) => ({
+          id: `issue-${index}`,
+          label: issue.title,
+          location: issue.location,
+        })),
+      ].filter((region): region is HighlightRegion => {
+        if (!region.location) return false
+        const { file, filePage } = uploadedPageFor(region.location)
+        return file === activePageIndex && filePage === (isPdf ? pdfPage : 1)
+      })
+    : []
+
+  const highlightSource = (id: string, location?: SourceLocation) => {
+    setHighlightId(id)
+    if (!location) return
+
+    const { file, filePage } = uploadedPageFor(location)
+    const page = pages[file]
+    if (page && page.id !== activePage?.id) {
+      setActivePageId(page.id)
+    }
+    setPdfPage(filePage)
+  }
+
+  const selectPage = (id: string) => {
+    setActivePageId(id)
+    setPdfPage(1)
+  }
+
+  const handleRegionClick = (id: string) => {
+    setTab(id.startsWith("term-") ? "terms" : "issues")
+    setHighlightId(id)
+    // Wait for the tab to render before scrolling to the entry
+    setTimeout(() => document.getElementById(id)?.scrollIntoView({ behavior: "smooth", block: "nearest" }), 50)
+  }
+
+  const addFiles = (fileList: FileList) => {
+    const files = Array.from(fileList)
+    const supported = files.filter((file) => isSupportedFileType(file.type))
+    const accepted = supported.slice(0, Math.max(0, MAX_PAGES - pages.length))
+
+    if (accepted.length < files.length) {
+      toast({
+        title: "Some files were skipped",
+        description:
+          accepted.length < supported.length
+            ? `A contract can have at most ${MAX_PAGES} pages.`
+            : "Only image and PDF files are supported.",
+        variant: "destructive",
+      })
+    }
+    if (accepted.length === 0) return
+
+    const newPages = accepted.map((file) => ({ id: crypto.randomUUID(), file, preview: null }))
+    setPages((prev) => [...prev, ...newPages])
+    setActivePageId((prev) => prev ?? newPages[0].id)
     setResults(null)
+    loadPreviews(newPages)
+  }
 
-    if (selectedFile) {
-      // Only create preview on client side
-      if (typeof window !== "undefined") {
-        const reader = new FileReader()
-        reader.onload = (event) => {
-          setPreview(event.target?.result as string)
-        }
+  const loadPreviews = (newPages: ContractPage[]) => {
+    // Only create previews on client side
+    if (typeof window === "undefined") return
 
-        if (selectedFile.type.startsWith("image/")) {
-          reader.readAsDataURL(selectedFile)
-        } else {
-          // For PDFs or other documents, we'll just show the file name
-          setPreview(null)
-        }
+    newPages.forEach((page) => {
+      // For PDFs or other documents, we'll just show an icon
+      if (!page.file.type.startsWith("image/")) return
+
+      const reader = new FileReader()
+      reader.onload = (event) => {
+        const preview = event.target?.result as string
+        setPages((prev) => prev.map((p) => (p.id === page.id ? { ...p, preview } : p)))
       }
-    } else {
-      setPreview(null)
+      reader.readAsDataURL(page.file)
+    })
+  }
+
+  // Reopening a saved analysis restores its pages and results as they were left
+  useEffect(() => {
+    if (!opened) return
+
+    const restored = opened.files.map((file) => ({ id: crypto.randomUUID(), file, preview: null }))
+    setPages(restored)
+    setActivePageId(restored[0]?.id ?? null)
+    setPdfPage(1)
+    setResults(opened.results)
+    setMeta(opened.meta)
+    setState(opened.state)
+    setAnalyzedState(opened.state)
+    setAnalyzedRedacted(opened.redacted)
+    setHistoryId(opened.id)
+    setTab("summary")
+    setHighlightId(null)
+    loadPreviews(restored)
+  }, [opened])
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) {
+      addFiles(e.target.files)
     }
+    e.target.value = ""
   }
 
   const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault()
-    const droppedFile = e.dataTransfer.files?.[0]
-    if (droppedFile) {
-      setFile(droppedFile)
-      setResults(null)
-
-      // Only create preview on client side
-      if (typeof window !== "undefined") {
-        const reader = new FileReader()
-        reader.onload = (event) => {
-          setPreview(event.target?.result as string)
-        }
+    if (e.dataTransfer.files?.length) {
+      addFiles(e.dataTransfer.files)
+    }
+  }
 
-        if (droppedFile.type.startsWith("image/")) {
-          reader.readAsDataURL(droppedFile)
-        } else {
-          setPreview(null)
-        }
-      }
+  const removePage = (id: string) => {
+    const remaining = pages.filter((page) => page.id !== id)
+    setPages(remaining)
+    setResults(null)
+    if (activePageId === id) {
+      setActivePageId(remaining[0]?.id ?? null)
+      setPdfPage(1)
     }
   }
 
-  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
-    e.preventDefault()
+  const movePage = (fromIndex: number, toIndex: number) => {
+    setPages((prev) => {
+      const next = [...prev]
+      const [moved] = next.splice(fromIndex, 1)
+      next.splice(toIndex, 0, moved)
+      return next
+    })
+    setResults(null)
   }
 
-  const startProgressSimulation = () => {
-    setProgress(0)
+  const applyPageEdits = (id: string, file: File, preview: string, edits: ImageEditSettings) => {
+    setPages((prev) =>
+      prev.map((page) =>
+        page.id === id
+          ? { ...page, file, preview, edits, original: page.original ?? { file: page.file, preview: page.preview ?? preview } }
+          : page,
+      ),
+    )
+    setResults(null)
+  }
 
-    // Clear any existing interval
-    if (progressInterval.current) {
-      clearInterval(progressInterval.current)
-    }
+  const applyRedactions = (id: string, result: RedactionResult | null) => {
+    setPages((prev) =>
+      prev.map((page) => {
+        if (page.id !== id) return page
 
-    // Simulate progress
-    progressInterval.current = setInterval(() => {
-      setProgress((prevProgress) => {
-        // Slowly increase up to 90%
-        if (prevProgress >= 90) {
-          clearInterval(progressInterval.current as NodeJS.Timeout)
-          return 90
-        }
-        return prevProgress + Math.random() * 5
-      })
-    }, 300)
+        const unredacted = page.unredacted ?? { file: page.file, preview: page.preview }
+        return result
+          ? { ...page, file: result.file, preview: result.preview, unredacted, redactions: result.boxes }
+          : { ...page, ...unredacted, unredacted: undefined, redactions: undefined }
+      }),
+    )
+    setResults(null)
   }
 
-  const stopProgressSimulation = () => {
-    if (progressInterval.current) {
-      clearInterval(progressInterval.current)
-      progressInterval.current = null
+  const saveEdit = (edited: AnalysisResults) => {
+    setResults(edited)
+    if (historyId) {
+      onSave?.({
+        id: historyId,
+        results: edited,
+        meta,
+        state: analyzedState,
+        redacted: analyzedRedacted,
+        files: pages.map((page) => page.file),
+      })
     }
-    setProgress(100)
+  }
+
+  const editTerm = (index: number, value: string) => {
+    if (!results) return
+    saveEdit(applyTermEdit(results, index, value, { state: analyzedState }))
+  }
+
+  const editFigure = (field: FigureField, value: string) => {
+    if (!results) return
+    // Anything that isn't a number, including an empty input, clears the figure
+    saveEdit(applyFigureEdit(results, field, toNumberOrNull(value), { state: analyzedState }))
+  }
+
+  const isEditedFigure = (field: FigureField) => results?.editedFields?.includes(figurePath(field)) ?? false
 
-    // Reset progress after a short delay
-    setTimeout(() => {
-      setProgress(0)
-    }, 500)
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault()
   }
 
-  const handleAnalyze = async () => {
-    if (!file) return
+  const handleAnalyze = async (reanalyze = false) => {
+    if (pages.length === 0) return
+
+    // Re-analyzing replaces the saved copy rather than adding another one to the history
+    const id = reanalyze && historyId ? historyId : crypto.randomUUID()
+    const redacted = pages.some((page) => page.redactions?.length)
 
     setIsAnalyzing(true)
+    setAnalyzedRedacted(redacted)
+    setAnalyzedState(state)
     setResults(null)
-    startProgressSimulation()
+    setMeta(null)
+    setStage(null)
+    setPartialTerms([])
 
     try {
       const formData = new FormData()
-      formData.append("file", file)
-
-      const response = await analyzeContractAction(formData)
-
-      if (response.success && response.data) {
-        setResults(response.data)
-      } else {
-        toast({
-          title: "Analysis Failed",
-          description: response.error || "Failed to analyze the contract. Please try again.",
-          variant: "destructive",
-        })
+      pages.forEach((page) => formData.append("files", page.file))
+      if (state) {
+        formData.append("state", state)
       }
+      if (reanalyze) {
+        formData.append("reanalyze", "true")
+      }
+
+      const response = await fetch("/api/analyze", { method: "POST", body: formData })
+      if (!response.ok) {
+        throw new Error(`Analysis request failed with status ${response.status}`)
+      }
+
+      await readAnalysisStream(response, (event) => {
+        switch (event.type) {
+          case "stage":
+            setStage({ id: event.stage, detail: event.detail })
+            break
+          case "partial-terms":
+            setPartialTerms(event.contractTerms)
+            break
+          case "result":
+            setResults(event.data)
+            setMeta(event.meta)
+            setHistoryId(id)
+            onSave?.({
+              id,
+              results: event.data,
+              meta: event.meta,
+              state,
+              redacted,
+              files: pages.map((page) => page.file),
+            })
+            break
+          case "error":
+            toast({
+              title: "Analysis Failed",
+              description: event.error || "Failed to analyze the contract. Please try again.",
+              variant: "destructive",
+            })
+            break
+        }
+      })
     } catch (error) {
       console.error("Error analyzing contract:", error)
 
@@ -141,15 +412,64 @@ export function ContractAnalyzer() {
         variant: "destructive",
       })
     } finally {
-      stopProgressSimulation()
       setIsAnalyzing(false)
+      setStage(null)
+      setPartialTerms([])
+    }
+  }
+
+  const isCompared = results !== null && comparison.some((contract) => contract.results === results)
+
+  const addToComparison = () => {
+    if (!results || isCompared) return
+    const name = pages[0]?.file.name.replace(/\.[^.]+$/, "") || `Offer ${comparison.length + 1}`
+    setComparison((prev) => [...prev, { id: crypto.randomUUID(), name, results }])
+  }
+
+  const exportName = pages[0]?.file.name.replace(/\.[^.]+$/, "") || "Contract"
+
+  const exportResults = (format: ExportFormat) => {
+    if (!results) return
+    const { body, contentType, extension } = renderExport(format, { name: exportName, results, meta })
+    downloadBlob(new Blob([body], { type: contentType }), exportFileName(exportName, `.${extension}`))
+  }
+
+  const exportReport = async () => {
+    if (!results) return
+
+    setIsExporting(true)
+    try {
+      const thumbnail = pages[0] ? await renderThumbnail(pages[0].file, 400).catch(() => null) : null
+      const response = await fetch("/api/report", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: exportName, results, meta, thumbnail }),
+      })
+      if (!response.ok) {
+        throw new Error(`Report request failed with status ${response.status}`)
+      }
+      downloadBlob(await response.blob(), exportFileName(exportName, "-report.pdf"))
+    } catch (error) {
+      console.error("Error exporting report:", error)
+      toast({
+        title: "Export Failed",
+        description: "We couldn't create the report. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsExporting(false)
     }
   }
 
   const resetForm = () => {
-    setFile(null)
-    setPreview(null)
+    setPages([])
+    setActivePageId(null)
+    setMeta(null)
+    setTab("summary")
+    setHighlightId(null)
     setResults(null)
+    setHistoryId(null)
+    onReset?.()
   }
 
   const getTrustScoreColor = (score: number) => {
@@ -168,7 +488,7 @@ export function ContractAnalyzer() {
     <div className="grid gap-8 md:grid-cols-2">
       <Card className="overflow-hidden bg-gray-900 border-gray-800">
         <CardContent className="p-0">
-          {!file ? (
+          {pages.length === 0 ? (
             <div
               className="flex flex-col items-center justify-center p-8 border-2 border-dashed border-gray-700 rounded-lg h-[400px]"
               onDrop={handleDrop}
@@ -176,17 +496,25 @@ export function ContractAnalyzer() {
             >
               <Upload className="h-12 w-12 text-gray-500 mb-4" />
               <h3 className="text-lg font-medium text-gray-200 mb-1">Upload your contract</h3>
-              <p className="text-sm text-gray-400 text-center mb-4">Drag and drop your file here, or click to browse</p>
-              <p className="text-xs text-gray-500 mb-4">Supports PDF, JPG, PNG (max 10MB)</p>
+              <p className="text-sm text-gray-400 text-center mb-4">Drag and drop your files here, or click to browse</p>
+              <p className="text-xs text-gray-500 mb-4">
+                Supports PDF, JPG, PNG (up to {MAX_PAGES} pages, {formatFileSize(MAX_TOTAL_UPLOAD_BYTES)} total)
+              </p>
               <Button asChild className="bg-blue-600 hover:bg-blue-700">
                 <label>
                   Browse Files
-                  <input type="file" className="sr-only" onChange={handleFileChange} accept=".pdf,.jpg,.jpeg,.png" />
+                  <input
+                    type="file"
+                    multiple
+                    className="sr-only"
+                    onChange={handleFileChange}
+                    accept={ACCEPTED_FILE_TYPES}
+                  />
                 </label>
               </Button>
             </div>
           ) : (
-            <div className="relative">
+            <div className="relative" onDrop={handleDrop} onDragOver={handleDragOver}>
               <div className="absolute top-4 right-4 z-10">
                 <Button
                   variant="secondary"
@@ -201,24 +529,104 @@ export function ContractAnalyzer() {
               <div className="p-6 bg-gray-900">
                 <div className="flex items-center mb-4">
                   <FileText className="h-6 w-6 text-blue-500 mr-2" />
-                  <span className="font-medium text-gray-200 truncate max-w-[250px]">{file.name}</span>
+                  <span className="font-medium text-gray-200 truncate max-w-[250px]">
+                    {pages.length === 1 ? pages[0].file.name : `${pages.length} pages`}
+                  </span>
+                  <span
+                    className={`ml-2 text-xs ${totalSize > MAX_TOTAL_UPLOAD_BYTES ? "text-red-400" : "text-gray-500"}`}
+                  >
+                    {formatFileSize(totalSize)} of {formatFileSize(MAX_TOTAL_UPLOAD_BYTES)}
+                  </span>
                 </div>
 
-                {preview && file.type.startsWith("image/") ? (
-                  <div className="relative h-[300px] border border-gray-700 rounded-md overflow-hidden">
-                    <Image src={preview || "/placeholder.svg"} alt="Contract preview" fill className="object-contain" />
-                  </div>
+                {activePage?.preview ? (
+                  <ContractPreview
+                    src={activePage.preview}
+                    regions={highlightRegions}
+                    activeRegionId={highlightId}
+                    onRegionHover={setHighlightId}
+                    onRegionClick={handleRegionClick}
+                  />
+                ) : isPdf ? (
+                  <PdfViewer
+                    file={activePage.file}
+                    page={pdfPage}
+                    onPageChange={setPdfPage}
+                    regions={highlightRegions}
+                    activeRegionId={highlightId}
+                    onRegionHover={setHighlightId}
+                    onRegionClick={handleRegionClick}
+                  />
                 ) : (
                   <div className="h-[300px] border border-gray-700 rounded-md flex items-center justify-center bg-gray-800">
                     <FileText className="h-16 w-16 text-gray-600" />
                   </div>
                 )}
 
+                {activePage && !isAnalyzing && (activePage.preview || isPdf) && (
+                  <div className="mt-2 flex justify-end gap-2">
+                    {activePage.preview && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={Boolean(activePage.redactions)}
+                        title={activePage.redactions ? "Remove the redactions before editing the page" : undefined}
+                        onClick={() => setEditingPageId(activePage.id)}
+                        className="h-7 text-gray-400 hover:bg-gray-800 hover:text-gray-200"
+                      >
+                        <SlidersHorizontal className="mr-1 h-3 w-3" />
+                        Edit page
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setRedactingPageId(activePage.id)}
+                      className="h-7 text-gray-400 hover:bg-gray-800 hover:text-gray-200"
+                    >
+                      <EyeOff className="mr-1 h-3 w-3" />
+                      {activePage.redactions ? `Redacted (${activePage.redactions.length})` : "Redact"}
+                    </Button>
+                  </div>
+                )}
+
+                <div className="mt-4">
+                  <PageStrip
+                    pages={pages}
+                    activePageId={activePage?.id ?? null}
+                    disabled={isAnalyzing}
+                    onSelect={selectPage}
+                    onRemove={removePage}
+                    onMove={movePage}
+                    onAddFiles={addFiles}
+                  />
+                </div>
+
+                <div className="mt-4">
+                  <Select
+                    value={state ?? "none"}
+                    onValueChange={(value) => setState(value === "none" ? null : value)}
+                    disabled={isAnalyzing}
+                  >
+                    <SelectTrigger className="bg-gray-800 border-gray-700 text-gray-200">
+                      <SelectValue placeholder="State of purchase" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">State not listed / skip state rules</SelectItem>
+                      {supportedStates.map(({ code, name }) => (
+                        <SelectItem key={code} value={code}>
+                          {name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
                 <div className="mt-4">
                   <Button
                     className="w-full bg-blue-600 hover:bg-blue-700"
-                    onClick={handleAnalyze}
-                    disabled={isAnalyzing}
+                    onClick={() => handleAnalyze()}
+                    disabled={isAnalyzing || totalSize > MAX_TOTAL_UPLOAD_BYTES}
                   >
                     {isAnalyzing ? (
                       <>
@@ -246,10 +654,102 @@ export function ContractAnalyzer() {
                 Our AI is reviewing your document for terms and potential issues
               </p>
               <Progress value={progress} className="w-full max-w-xs bg-gray-800" />
+              <ul className="mt-6 w-full max-w-xs space-y-2 text-sm">
+                {ANALYSIS_STAGES.map((s, index) => (
+                  <li key={s.id} className="flex items-center">
+                    {index < stageIndex ? (
+                      <CheckCircle className="mr-2 h-4 w-4 text-green-500" />
+                    ) : index === stageIndex ? (
+                      <Loader2 className="mr-2 h-4 w-4 text-blue-500 animate-spin" />
+                    ) : (
+                      <Circle className="mr-2 h-4 w-4 text-gray-700" />
+                    )}
+                    <span className={index <= stageIndex ? "text-gray-200" : "text-gray-500"}>
+                      {s.label}
+                      {index === stageIndex && stage?.detail && (
+                        <span className="text-gray-500"> ({stage.detail})</span>
+                      )}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              {partialTerms.length > 0 && (
+                <div className="mt-6 w-full space-y-2">
+                  <h4 className="text-sm font-medium text-gray-300">Terms found so far</h4>
+                  {partialTerms.map((term, index) => (
+                    <div
+                      key={index}
+                      className="flex justify-between border border-gray-800 rounded-md px-3 py-2 bg-gray-800/50 text-sm"
+                    >
+                      <span className="text-gray-300">{term.term}</span>
+                      <span className="text-gray-400">{term.value}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           ) : results ? (
-            <Tabs defaultValue="summary" className="w-full">
-              <TabsList className="grid w-full grid-cols-4 bg-gray-800">
+            <Tabs value={tab} onValueChange={setTab} className="w-full">
+              <div className="flex items-center justify-between mb-3">
+                <div>
+                  {meta?.cached && (
+                    <Badge variant="outline" className="border-gray-700 text-gray-400">
+                      Cached result
+                    </Badge>
+                  )}
+                  {analyzedRedacted && (
+                    <Badge variant="outline" className="ml-2 border-gray-700 text-gray-400">
+                      <EyeOff className="mr-1 h-3 w-3" />
+                      Redacted
+                    </Badge>
+                  )}
+                </div>
+                <div className="flex items-center">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={addToComparison}
+                    disabled={isCompared}
+                    className="text-gray-400 hover:bg-gray-800 hover:text-gray-200"
+                  >
+                    <Columns3 className="mr-2 h-4 w-4" />
+                    {isCompared ? "In comparison" : "Compare"}
+                  </Button>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={isExporting}
+                        className="text-gray-400 hover:bg-gray-800 hover:text-gray-200"
+                      >
+                        {isExporting ? (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        ) : (
+                          <FileDown className="mr-2 h-4 w-4" />
+                        )}
+                        Export
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onSelect={exportReport}>PDF report</DropdownMenuItem>
+                      <DropdownMenuItem onSelect={() => exportResults("json")}>JSON</DropdownMenuItem>
+                      <DropdownMenuItem onSelect={() => exportResults("csv")}>CSV (terms and issues)</DropdownMenuItem>
+                      <DropdownMenuItem onSelect={() => exportResults("markdown")}>Markdown summary</DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleAnalyze(true)}
+                    className="text-gray-400 hover:bg-gray-800 hover:text-gray-200"
+                  >
+                    <RefreshCw className="mr-2 h-4 w-4" />
+                    Re-analyze
+                  </Button>
+                </div>
+              </div>
+              <TabsList className="grid w-full grid-cols-5 bg-gray-800">
                 <TabsTrigger
                   value="summary"
                   className="text-gray-300 data-[state=active]:bg-gray-700 data-[state=active]:text-white"
@@ -274,29 +774,126 @@ export function ContractAnalyzer() {
                 >
                   Score
                 </TabsTrigger>
+                <TabsTrigger
+                  value="amortization"
+                  className="text-gray-300 data-[state=active]:bg-gray-700 data-[state=active]:text-white"
+                >
+                  Amortization
+                </TabsTrigger>
               </TabsList>
 
               <TabsContent value="summary" className="pt-4">
                 <div className="space-y-4">
                   <div className="flex items-center justify-between">
-                    <h3 className="text-lg font-medium text-gray-200">Contract Analysis</h3>
+                    <div className="flex items-center gap-2">
+                      <h3 className="text-lg font-medium text-gray-200">Contract Analysis</h3>
+                      {results.contractType === "lease" && (
+                        <Badge variant="outline" className="border-gray-700 text-gray-300">
+                          Lease
+                        </Badge>
+                      )}
+                    </div>
                     <div className={`font-bold text-lg ${getTrustScoreColor(results.trustworthinessScore)}`}>
                       {results.trustworthinessScore}/100
                     </div>
                   </div>
                   <p className="text-gray-300">{results.summary}</p>
+                  {meta?.pages && meta.pages.length > 0 && (
+                    <p className="text-xs text-gray-500">{describePageSources(meta.pages)}</p>
+                  )}
                 </div>
               </TabsContent>
 
               <TabsContent value="terms" className="pt-4">
-                <h3 className="text-lg font-medium mb-4 text-gray-200">Contract Terms</h3>
+                <h3 className="text-lg font-medium mb-1 text-gray-200">Contract Terms</h3>
+                <p className="text-xs text-gray-500 mb-4">
+                  Spotted a misread number? Use the pencil next to a value to correct it and the checks and score update
+                  right away.
+                </p>
                 <div className="space-y-4 max-h-[500px] overflow-y-auto pr-2">
+                  {results.contractType === "lease" && results.lease && (
+                    <div className="border border-gray-700 rounded-md p-3 bg-gray-800">
+                      <div className="font-medium text-gray-200 mb-2">Lease Terms</div>
+                      <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                        {leaseFields.map(({ key, label, format }) => {
+                          const value = results.lease?.[key]
+                          const field: FigureField = { block: "lease", key }
+                          return (
+                            <div key={key} className="flex justify-between">
+                              <span className="text-gray-400">
+                                {label}
+                                {isEditedFigure(field) && <span className="ml-1 text-xs text-blue-400">edited</span>}
+                              </span>
+                              <EditableValue
+                                label={label}
+                                value={value == null ? "" : String(value)}
+                                onSave={(next) => editFigure(field, next)}
+                                className="text-gray-200"
+                              >
+                                {value == null ? "—" : format(value)}
+                              </EditableValue>
+                            </div>
+                          )
+                        })}
+                      </div>
+                    </div>
+                  )}
+                  {results.tilaDisclosure && (
+                    <div className="border border-gray-700 rounded-md p-3 bg-gray-800">
+                      <div className="font-medium text-gray-200 mb-2">Truth-in-Lending Disclosure</div>
+                      <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                        {tilaFields.map(({ key, label }) => {
+                          const value = results.tilaDisclosure?.[key]
+                          const field: FigureField = { block: "tilaDisclosure", key }
+                          return (
+                            <div key={key} className="flex justify-between">
+                              <span className="text-gray-400">
+                                {label}
+                                {isEditedFigure(field) && <span className="ml-1 text-xs text-blue-400">edited</span>}
+                              </span>
+                              <EditableValue
+                                label={label}
+                                value={value == null ? "" : String(value)}
+                                onSave={(next) => editFigure(field, next)}
+                                className="text-gray-200"
+                              >
+                                {value == null ? "—" : key === "apr" ? `${value}%` : formatCurrency(value)}
+                              </EditableValue>
+                            </div>
+                          )
+                        })}
+                      </div>
+                    </div>
+                  )}
+
                   {results.contractTerms.map((term, index) => (
-                    <div key={index} className="border border-gray-800 rounded-md p-3 bg-gray-800/50">
+                    <div
+                      key={index}
+                      id={`term-${index}`}
+                      onMouseEnter={() => highlightSource(`term-${index}`, term.location)}
+                      onMouseLeave={() => setHighlightId(null)}
+                      className={`border rounded-md p-3 bg-gray-800/50 ${
+                        highlightId === `term-${index}` ? "border-yellow-500/60" : "border-gray-800"
+                      }`}
+                    >
                       <div className="flex justify-between items-center mb-1">
-                        <div className="font-medium text-gray-200">{term.term}</div>
+                        <div className="font-medium text-gray-200">
+                          {term.term}
+                          {term.userEdited && (
+                            <Badge
+                              variant="outline"
+                              title={term.originalValue ? `Read from the contract as ${term.originalValue}` : undefined}
+                              className="ml-2 border-blue-800 text-blue-400"
+                            >
+                              User-edited
+                            </Badge>
+                          )}
+                        </div>
                         <div className="flex items-center">
-                          <span
+                          <EditableValue
+                            label={term.term}
+                            value={term.value}
+                            onSave={(value) => editTerm(index, value)}
                             className={
                               term.flag === "high"
                                 ? "text-red-400"
@@ -306,9 +903,7 @@ export function ContractAnalyzer() {
                                     ? "text-green-400"
                                     : "text-gray-300"
                             }
-                          >
-                            {term.value}
-                          </span>
+                          />
                           {term.flag === "high" && <AlertTriangle className="ml-1 h-4 w-4 text-red-400" />}
                           {term.flag === "warning" && <AlertTriangle className="ml-1 h-4 w-4 text-yellow-400" />}
                           {term.flag === "good" && <CheckCircle className="ml-1 h-4 w-4 text-green-400" />}
@@ -326,8 +921,13 @@ export function ContractAnalyzer() {
                   {results.potentialIssues.map((issue, index) => (
                     <div
                       key={index}
+                      id={`issue-${index}`}
+                      onMouseEnter={() => highlightSource(`issue-${index}`, issue.location)}
+                      onMouseLeave={() => setHighlightId(null)}
                       className={`border rounded-md p-3 ${
-                        issue.severity === "high"
+                        highlightId === `issue-${index}`
+                          ? "border-yellow-500/60 bg-gray-800/50"
+                          : issue.severity === "high"
                           ? "border-red-900/50 bg-red-950/20"
                           : issue.severity === "warning"
                             ? "border-yellow-900/50 bg-yellow-950/20"
@@ -345,7 +945,19 @@ export function ContractAnalyzer() {
                           <CheckCircle className="h-5 w-5 text-green-500 mr-2 flex-shrink-0 mt-0.5" />
                         )}
                         <div>
-                          <h4 className="font-medium text-gray-200">{issue.title}</h4>
+                          <div className="flex items-center gap-2">
+                            <h4 className="font-medium text-gray-200">{issue.title}</h4>
+                            {issue.source === "computed" && (
+                              <Badge variant="outline" className="border-blue-800 bg-blue-950/40 text-blue-300">
+                                Computed
+                              </Badge>
+                            )}
+                            {issue.source === "rules" && (
+                              <Badge variant="outline" className="border-purple-800 bg-purple-950/40 text-purple-300">
+                                State rule
+                              </Badge>
+                            )}
+                          </div>
                           <p className="text-sm text-gray-400 mt-1">{issue.description}</p>
                           {issue.recommendation && (
                             <div className="mt-2">
@@ -353,6 +965,11 @@ export function ContractAnalyzer() {
                               <span className="text-sm text-gray-400">{issue.recommendation}</span>
                             </div>
                           )}
+                          {issue.citation && (
+                            <p className="text-xs text-gray-500 mt-2">
+                              Source: {issue.citation.label} (rules v{issue.citation.rulesVersion})
+                            </p>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -391,55 +1008,63 @@ export function ContractAnalyzer() {
 
                   <h3 className="text-lg font-medium mb-2 text-gray-200">Trustworthiness Score</h3>
                   <p className="text-gray-400 max-w-md mx-auto">
-                    This score represents the overall fairness and transparency of your contract based on industry
-                    standards and consumer protection guidelines.
+                    The score adds up five weighted parts of the contract. Each part starts from the extracted figures
+                    and loses points for the issues found in it.
                   </p>
+                  {results.modelScore !== undefined && (
+                    <p className="mt-1 text-xs text-gray-500">The model&apos;s own estimate was {results.modelScore}/100.</p>
+                  )}
 
-                  <div className="mt-6 grid grid-cols-3 gap-4 max-w-md mx-auto">
-                    <div className="text-center p-3 bg-gray-800 rounded-md">
-                      <div className="text-2xl font-bold text-red-500 mb-1">0-59</div>
-                      <div className="text-sm text-gray-400">Poor</div>
-                    </div>
-                    <div className="text-center p-3 bg-gray-800 rounded-md">
-                      <div className="text-2xl font-bold text-yellow-500 mb-1">60-79</div>
-                      <div className="text-sm text-gray-400">Caution</div>
-                    </div>
-                    <div className="text-center p-3 bg-gray-800 rounded-md">
-                      <div className="text-2xl font-bold text-green-500 mb-1">80-100</div>
-                      <div className="text-sm text-gray-400">Good</div>
-                    </div>
+                  <div className="mt-6 max-w-lg mx-auto">
+                    <ScoreBreakdown breakdown={scoreContract(results)} />
                   </div>
                 </div>
               </TabsContent>
+
+              <TabsContent value="amortization" className="pt-4">
+                <AmortizationSchedule results={results} />
+              </TabsContent>
             </Tabs>
           ) : (
             <div className="h-full flex flex-col items-center justify-center py-12 text-center">
               <FileText className="h-12 w-12 text-gray-700 mb-4" />
               <h3 className="text-lg font-medium text-gray-300 mb-2">No contract analyzed yet</h3>
               <p className="text-sm text-gray-500 max-w-xs">
-                Upload a car purchase contract and click "Analyze" to get detailed feedback
+                Upload a car purchase contract and click &ldquo;Analyze&rdquo; to get detailed feedback
               </p>
             </div>
           )}
         </CardContent>
       </Card>
+
+      {comparison.length > 0 && (
+        <ContractComparison
+          contracts={comparison}
+          onRemove={(id) => setComparison((prev) => prev.filter((contract) => contract.id !== id))}
+        />
+      )}
+
+      {editingPage?.preview && (
+        <ImageEditor
+          open
+          onOpenChange={(open) => !open && setEditingPageId(null)}
+          source={editingPage.original?.preview ?? editingPage.preview}
+          fileName={(editingPage.original?.file ?? editingPage.file).name}
+          initialSettings={editingPage.edits}
+          onApply={(file, preview, edits) => applyPageEdits(editingPage.id, file, preview, edits)}
+        />
+      )}
+
+      {redactingPage && (
+        <RedactionEditor
+          open
+          onOpenChange={(open) => !open && setRedactingPageId(null)}
+          file={redactingPage.unredacted?.file ?? redactingPage.file}
+          preview={redactingPage.unredacted ? redactingPage.unredacted.preview : redactingPage.preview}
+          initialBoxes={redactingPage.redactions}
+          onApply={(result) => applyRedactions(redactingPage.id, result)}
+        />
+      )}
     </div>
   )
 }
-
-interface AnalysisResults {
-  contractTerms: {
-    term: string
-    value: string
-    flag: "normal" | "warning" | "high" | "good"
-    details?: string
-  }[]
-  potentialIssues: {
-    title: string
-    description: string
-    severity: "high" | "warning" | "good"
-    recommendation?: string
-  }[]
-  trustworthinessScore: number
-  summary: string
-}
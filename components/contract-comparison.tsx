@@ -0,0 +1,116 @@
+"use client"
+
+import { Trophy, X } from "lucide-react"
+import { Card, CardContent } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { compareContracts, type ComparedContract, type ComparisonFormat, type ComparisonRow } from "@/lib/comparison"
+import { formatCurrency } from "@/lib/finance"
+import { cn } from "@/lib/utils"
+
+interface ContractComparisonProps {
+  contracts: ComparedContract[]
+  onRemove: (id: string) => void
+}
+
+function formatValue(value: number | null, format: ComparisonFormat) {
+  if (value == null) return "—"
+  if (format === "percent") return `${value.toFixed(2)}%`
+  if (format === "months") return `${value} months`
+  return formatCurrency(value)
+}
+
+/** Table of analyzed contracts side by side, highlighting the better value in each row */
+export function ContractComparison({ contracts, onRemove }: ContractComparisonProps) {
+  const { rows, totalCost, winner, savings } = compareContracts(contracts)
+  const mixesLeases =
+    contracts.some((contract) => contract.results.contractType === "lease") &&
+    contracts.some((contract) => contract.results.contractType === "purchase")
+
+  const cells = (row: ComparisonRow) =>
+    row.values.map((value, index) => (
+      <TableCell
+        key={contracts[index].id}
+        className={cn(
+          "text-right text-gray-300",
+          row.best.includes(index) && "bg-green-950/30 font-medium text-green-400",
+        )}
+      >
+        {formatValue(value, row.format)}
+      </TableCell>
+    ))
+
+  return (
+    <Card className="bg-gray-900 border-gray-800 md:col-span-2">
+      <CardContent className="p-6">
+        <h3 className="text-lg font-medium mb-1 text-gray-200">Compare Offers</h3>
+        {contracts.length < 2 ? (
+          <p className="text-sm text-gray-500">
+            Analyze another contract or dealer offer and add it to the comparison to see them side by side.
+          </p>
+        ) : (
+          <p className="text-sm text-gray-500">The better value in each row is highlighted.</p>
+        )}
+
+        <Table className="mt-4">
+          <TableHeader>
+            <TableRow className="border-gray-800 hover:bg-transparent">
+              <TableHead className="text-gray-400">Figure</TableHead>
+              {contracts.map((contract, index) => (
+                <TableHead key={contract.id} className="text-right text-gray-200">
+                  <span className="inline-flex items-center gap-1">
+                    {winner === index && <Trophy className="h-4 w-4 text-yellow-400" />}
+                    {contract.name}
+                    <button
+                      type="button"
+                      aria-label={`Remove ${contract.name} from the comparison`}
+                      onClick={() => onRemove(contract.id)}
+                      className="text-gray-500 hover:text-gray-200"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                  <div className="text-xs font-normal text-gray-500">
+                    {contract.results.contractType === "lease" ? "Lease" : "Purchase"} ·{" "}
+                    {contract.results.trustworthinessScore}/100
+                  </div>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.id} className="border-gray-800 hover:bg-gray-800/50">
+                <TableCell className="text-gray-400">{row.label}</TableCell>
+                {cells(row)}
+              </TableRow>
+            ))}
+          </TableBody>
+          <TableFooter className="border-gray-700 bg-gray-800/50">
+            <TableRow className="hover:bg-transparent">
+              <TableCell className="font-medium text-gray-200">{totalCost.label}</TableCell>
+              {cells(totalCost)}
+            </TableRow>
+          </TableFooter>
+        </Table>
+
+        {winner !== null && savings !== null && (
+          <p className="mt-4 text-sm text-gray-300">
+            {savings > 0 ? (
+              <>
+                <span className="font-medium text-green-400">{contracts[winner].name}</span> costs{" "}
+                {formatCurrency(savings)} less over its life than the next cheapest offer.
+              </>
+            ) : (
+              "The cheapest offers cost the same over their life."
+            )}
+          </p>
+        )}
+        {mixesLeases && (
+          <p className="mt-2 text-xs text-gray-500">
+            Lease totals do not include buying the car at the end, so they are not directly comparable to purchases.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
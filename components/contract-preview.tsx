@@ -0,0 +1,66 @@
+"use client"
+
+import type { SourceLocation } from "@/lib/analysis-schema"
+import { cn } from "@/lib/utils"
+
+export interface HighlightRegion {
+  /** Element id of the term or issue the region belongs to, e.g. `term-3` */
+  id: string
+  label: string
+  location: SourceLocation
+}
+
+interface RegionOverlayProps {
+  regions: HighlightRegion[]
+  activeRegionId: string | null
+  onRegionHover: (id: string | null) => void
+  onRegionClick: (id: string) => void
+}
+
+/** Clickable boxes over the lines that terms and issues were read from, positioned over a page */
+export function RegionOverlay({ regions, activeRegionId, onRegionHover, onRegionClick }: RegionOverlayProps) {
+  return (
+    <>
+      {regions.map(({ id, label, location }) => (
+        <button
+          key={id}
+          type="button"
+          title={label}
+          aria-label={`Show ${label}`}
+          onMouseEnter={() => onRegionHover(id)}
+          onMouseLeave={() => onRegionHover(null)}
+          onClick={() => onRegionClick(id)}
+          className={cn(
+            "absolute rounded-sm border transition-colors",
+            id === activeRegionId
+              ? "border-yellow-400 bg-yellow-400/25"
+              : "border-blue-500/40 hover:border-blue-400 hover:bg-blue-400/15",
+          )}
+          style={{
+            left: `${location.x * 100}%`,
+            top: `${location.y * 100}%`,
+            width: `${location.width * 100}%`,
+            height: `${location.height * 100}%`,
+          }}
+        />
+      ))}
+    </>
+  )
+}
+
+interface ContractPreviewProps extends RegionOverlayProps {
+  src: string
+}
+
+/** Page image with the source regions of terms and issues drawn over it */
+export function ContractPreview({ src, ...overlay }: ContractPreviewProps) {
+  return (
+    <div className="relative h-[300px] border border-gray-700 rounded-md overflow-hidden flex items-center justify-center">
+      <div className="relative max-h-full">
+        {/* A plain img so the overlay can be sized to the rendered image rather than the container */}
+        <img src={src || "/placeholder.svg"} alt="Contract preview" className="block max-h-[298px] max-w-full" />
+        <RegionOverlay {...overlay} />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,64 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { Pencil } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { cn } from "@/lib/utils"
+
+interface EditableValueProps {
+  /** Raw value shown in the input while editing */
+  value: string
+  /** What is shown when not editing; defaults to the raw value */
+  children?: React.ReactNode
+  /** Name of the field, for the edit button's accessible label */
+  label: string
+  disabled?: boolean
+  className?: string
+  onSave: (value: string) => void
+}
+
+/** An inline value with a pencil button that turns it into a text input. Enter or blur saves, Escape cancels. */
+export function EditableValue({ value, children, label, disabled, className, onSave }: EditableValueProps) {
+  const [draft, setDraft] = useState<string | null>(null)
+
+  const save = () => {
+    if (draft === null) return
+    const next = draft.trim()
+    setDraft(null)
+    if (next !== value) onSave(next)
+  }
+
+  if (draft !== null) {
+    return (
+      <Input
+        autoFocus
+        value={draft}
+        aria-label={label}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={save}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") save()
+          if (e.key === "Escape") setDraft(null)
+        }}
+        className="h-7 w-32 bg-gray-900 border-gray-600 px-2 text-right text-sm text-gray-100"
+      />
+    )
+  }
+
+  return (
+    <span className={cn("group/edit inline-flex items-center", className)}>
+      {children ?? value}
+      {!disabled && (
+        <button
+          type="button"
+          aria-label={`Edit ${label}`}
+          onClick={() => setDraft(value)}
+          className="ml-1 text-gray-500 opacity-0 hover:text-gray-200 focus:opacity-100 group-hover/edit:opacity-100"
+        >
+          <Pencil className="h-3 w-3" />
+        </button>
+      )}
+    </span>
+  )
+}
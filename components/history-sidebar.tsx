@@ -0,0 +1,181 @@
+"use client"
+
+import { useState } from "react"
+import { Cloud, FileText, MoreHorizontal, Pencil, Trash2 } from "lucide-react"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card"
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "@/components/ui/sidebar"
+import type { HistoryEntry } from "@/hooks/use-analysis-history"
+
+interface HistorySidebarProps {
+  entries: HistoryEntry[]
+  activeId: string | null
+  onOpen: (id: string) => void
+  onRename: (id: string, name: string) => void
+  onDelete: (id: string) => void
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })
+
+function matches(entry: HistoryEntry, query: string) {
+  const text = `${entry.name} ${entry.results.summary} ${entry.state ?? ""}`.toLowerCase()
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .every((word) => text.includes(word))
+}
+
+/** Workspace sidebar listing saved analyses, with search, rename, delete and a preview on hover */
+export function HistorySidebar({ entries, activeId, onOpen, onRename, onDelete }: HistorySidebarProps) {
+  const [query, setQuery] = useState("")
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+
+  const visible = entries.filter((entry) => matches(entry, query.trim()))
+  const deleting = entries.find((entry) => entry.id === deletingId)
+
+  const finishRename = () => {
+    if (!renaming) return
+    const name = renaming.name.trim()
+    if (name) onRename(renaming.id, name)
+    setRenaming(null)
+  }
+
+  return (
+    <Sidebar className="dark border-gray-800">
+      <SidebarHeader>
+        <SidebarInput
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search analyses"
+          aria-label="Search analyses"
+        />
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>History</SidebarGroupLabel>
+          <SidebarGroupContent>
+            {visible.length === 0 && (
+              <p className="px-2 py-4 text-xs text-sidebar-foreground/60">
+                {entries.length === 0 ? "Analyses you run are saved here." : "No analyses match your search."}
+              </p>
+            )}
+            <SidebarMenu>
+              {visible.map((entry) => (
+                <SidebarMenuItem key={entry.id}>
+                  {renaming?.id === entry.id ? (
+                    <SidebarInput
+                      autoFocus
+                      value={renaming.name}
+                      aria-label="Analysis name"
+                      onChange={(e) => setRenaming({ id: entry.id, name: e.target.value })}
+                      onBlur={finishRename}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") finishRename()
+                        if (e.key === "Escape") setRenaming(null)
+                      }}
+                    />
+                  ) : (
+                    <HoverCard openDelay={400}>
+                      <HoverCardTrigger asChild>
+                        <SidebarMenuButton size="lg" isActive={entry.id === activeId} onClick={() => onOpen(entry.id)}>
+                          {entry.thumbnail ? (
+                            <img src={entry.thumbnail} alt="" className="h-8 w-6 flex-shrink-0 rounded-sm object-cover" />
+                          ) : (
+                            <FileText className="flex-shrink-0" />
+                          )}
+                          <div className="grid flex-1 text-left leading-tight">
+                            <span className="truncate font-medium">{entry.name}</span>
+                            <span className="truncate text-xs text-sidebar-foreground/60">
+                              {formatDate(entry.createdAt)} · {entry.results.trustworthinessScore}/100
+                            </span>
+                          </div>
+                          {!entry.local && <Cloud className="flex-shrink-0 opacity-60" aria-label="Saved on the server" />}
+                        </SidebarMenuButton>
+                      </HoverCardTrigger>
+                      <HoverCardContent side="right" className="dark w-72 border-gray-800 bg-gray-900 text-gray-200">
+                        {entry.thumbnail && (
+                          <img src={entry.thumbnail} alt="" className="mb-3 max-h-48 w-full rounded object-contain" />
+                        )}
+                        <div className="text-sm font-medium">{entry.name}</div>
+                        <p className="mt-1 line-clamp-4 text-xs text-gray-400">{entry.results.summary}</p>
+                        <p className="mt-2 text-xs text-gray-500">
+                          {entry.results.contractType === "lease" ? "Lease" : "Purchase"} · Score{" "}
+                          {entry.results.trustworthinessScore}/100
+                          {entry.state && ` · ${entry.state} rules`}
+                        </p>
+                      </HoverCardContent>
+                    </HoverCard>
+                  )}
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <SidebarMenuAction showOnHover>
+                        <MoreHorizontal />
+                        <span className="sr-only">More</span>
+                      </SidebarMenuAction>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent side="right" align="start">
+                      <DropdownMenuItem onSelect={() => setRenaming({ id: entry.id, name: entry.name })}>
+                        <Pencil className="mr-2 h-4 w-4" />
+                        Rename
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onSelect={() => setDeletingId(entry.id)}>
+                        <Trash2 className="mr-2 h-4 w-4" />
+                        Delete
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+
+      <AlertDialog open={deleting !== undefined} onOpenChange={(open) => !open && setDeletingId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this analysis?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleting?.name} and its uploaded pages will be removed from your history. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (deleting) onDelete(deleting.id)
+                setDeletingId(null)
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Sidebar>
+  )
+}
@@ -0,0 +1,268 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useRef, useState } from "react"
+import { Loader2, RotateCcw, RotateCw, Wand2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import { canvasToFile, detectSkewCorrection, loadImage, renderEditedImage } from "@/lib/image-canvas"
+import {
+  DEFAULT_IMAGE_EDITS,
+  FULL_FRAME,
+  MAX_SKEW_DEGREES,
+  type ImageEditSettings,
+  type Point,
+  type Quad,
+} from "@/lib/image-processing"
+
+const PREVIEW_DIMENSION = 700
+const MAX_DIMENSION_OPTIONS = [1200, 1600, 2000, 3000]
+const CORNER_LABELS = ["top-left", "top-right", "bottom-right", "bottom-left"]
+
+interface ImageEditorProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Data URL of the page as originally uploaded; edits are always applied to it from scratch */
+  source: string
+  fileName: string
+  initialSettings?: ImageEditSettings
+  onApply: (file: File, preview: string, settings: ImageEditSettings) => void
+}
+
+export function ImageEditor({ open, onOpenChange, source, fileName, initialSettings, onApply }: ImageEditorProps) {
+  const [image, setImage] = useState<HTMLImageElement | null>(null)
+  const [settings, setSettings] = useState<ImageEditSettings>(initialSettings ?? DEFAULT_IMAGE_EDITS)
+  const [dragCorner, setDragCorner] = useState<number | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const outlineRef = useRef<HTMLDivElement>(null)
+  const previewRef = useRef<HTMLCanvasElement>(null)
+
+  const corners = settings.corners ?? FULL_FRAME
+  const update = (changes: Partial<ImageEditSettings>) => setSettings((prev) => ({ ...prev, ...changes }))
+
+  useEffect(() => {
+    if (!open) return
+    setSettings(initialSettings ?? DEFAULT_IMAGE_EDITS)
+    loadImage(source)
+      .then(setImage)
+      .catch((error) => console.error("Error loading image for editing:", error))
+  }, [open, source, initialSettings])
+
+  // Re-render a small preview shortly after the settings stop changing
+  useEffect(() => {
+    if (!image) return
+
+    const timeout = setTimeout(() => {
+      const canvas = previewRef.current
+      if (!canvas) return
+      try {
+        const result = renderEditedImage(image, {
+          ...settings,
+          maxDimension: Math.min(settings.maxDimension, PREVIEW_DIMENSION),
+        })
+        canvas.width = result.width
+        canvas.height = result.height
+        canvas.getContext("2d")?.drawImage(result, 0, 0)
+      } catch (error) {
+        console.error("Error rendering edited image:", error)
+      }
+    }, 150)
+    return () => clearTimeout(timeout)
+  }, [image, settings])
+
+  const moveCorner = (e: React.PointerEvent, index: number) => {
+    const bounds = outlineRef.current?.getBoundingClientRect()
+    if (dragCorner !== index || !bounds) return
+
+    const point: Point = {
+      x: Math.min(Math.max((e.clientX - bounds.left) / bounds.width, 0), 1),
+      y: Math.min(Math.max((e.clientY - bounds.top) / bounds.height, 0), 1),
+    }
+    update({ corners: corners.map((corner, i) => (i === index ? point : corner)) as Quad })
+  }
+
+  const autoStraighten = () => {
+    if (!image) return
+    update({ skew: detectSkewCorrection(image, settings) })
+  }
+
+  const handleApply = async () => {
+    if (!image) return
+
+    setIsSaving(true)
+    try {
+      const canvas = renderEditedImage(image, settings)
+      const file = await canvasToFile(canvas, fileName, settings)
+      onApply(file, canvas.toDataURL(file.type), settings)
+      onOpenChange(false)
+    } catch (error) {
+      console.error("Error saving edited image:", error)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl bg-gray-900 border-gray-800 text-gray-200">
+        <DialogHeader>
+          <DialogTitle>Edit page</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Drag the corners onto the edges of the paper, straighten and clean up the page. The result on the right is
+            what gets uploaded.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="flex h-[320px] items-center justify-center rounded-md border border-gray-700 bg-gray-800">
+            <div ref={outlineRef} className="relative max-h-full touch-none select-none">
+              <img src={source} alt="Original page" className="block max-h-[318px] max-w-full" draggable={false} />
+              <svg className="pointer-events-none absolute inset-0 h-full w-full" viewBox="0 0 1 1" preserveAspectRatio="none">
+                <polygon
+                  points={corners.map(({ x, y }) => `${x},${y}`).join(" ")}
+                  fill="rgba(59, 130, 246, 0.15)"
+                  stroke="rgb(59, 130, 246)"
+                  strokeWidth={2}
+                  vectorEffect="non-scaling-stroke"
+                />
+              </svg>
+              {corners.map((corner, index) => (
+                <div
+                  key={index}
+                  role="slider"
+                  aria-label={`Move ${CORNER_LABELS[index]} corner`}
+                  aria-valuetext={`${Math.round(corner.x * 100)}%, ${Math.round(corner.y * 100)}%`}
+                  onPointerDown={(e) => {
+                    e.currentTarget.setPointerCapture(e.pointerId)
+                    setDragCorner(index)
+                  }}
+                  onPointerMove={(e) => moveCorner(e, index)}
+                  onPointerUp={() => setDragCorner(null)}
+                  className="absolute h-4 w-4 -translate-x-1/2 -translate-y-1/2 cursor-move rounded-full border-2 border-white bg-blue-500"
+                  style={{ left: `${corner.x * 100}%`, top: `${corner.y * 100}%` }}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="flex h-[320px] items-center justify-center rounded-md border border-gray-700 bg-gray-800">
+            {image ? (
+              <canvas ref={previewRef} className="max-h-[318px] max-w-full" />
+            ) : (
+              <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+            )}
+          </div>
+        </div>
+
+        <div className="grid gap-4 text-sm md:grid-cols-2">
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="border-gray-700 bg-gray-800 hover:bg-gray-700"
+                onClick={() => update({ rotation: (settings.rotation + 270) % 360 })}
+              >
+                <RotateCcw className="mr-1 h-4 w-4" />
+                Rotate left
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="border-gray-700 bg-gray-800 hover:bg-gray-700"
+                onClick={() => update({ rotation: (settings.rotation + 90) % 360 })}
+              >
+                <RotateCw className="mr-1 h-4 w-4" />
+                Rotate right
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="border-gray-700 bg-gray-800 hover:bg-gray-700"
+                disabled={!image}
+                onClick={autoStraighten}
+              >
+                <Wand2 className="mr-1 h-4 w-4" />
+                Auto-straighten
+              </Button>
+            </div>
+            <div className="space-y-2">
+              <Label className="flex justify-between text-gray-300">
+                Straighten <span className="text-gray-500">{settings.skew.toFixed(1)}°</span>
+              </Label>
+              <Slider
+                min={-MAX_SKEW_DEGREES}
+                max={MAX_SKEW_DEGREES}
+                step={0.1}
+                value={[settings.skew]}
+                onValueChange={([skew]) => update({ skew })}
+              />
+            </div>
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0 text-blue-400"
+              disabled={!settings.corners}
+              onClick={() => update({ corners: null })}
+            >
+              Reset corners
+            </Button>
+          </div>
+
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label className="flex justify-between text-gray-300">
+                Contrast <span className="text-gray-500">{settings.contrast}</span>
+              </Label>
+              <Slider min={-100} max={100} step={5} value={[settings.contrast]} onValueChange={([contrast]) => update({ contrast })} />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="edit-grayscale" className="text-gray-300">
+                Grayscale
+              </Label>
+              <Switch id="edit-grayscale" checked={settings.grayscale} onCheckedChange={(grayscale) => update({ grayscale })} />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="edit-threshold" className="text-gray-300">
+                Black and white
+              </Label>
+              <Switch id="edit-threshold" checked={settings.threshold} onCheckedChange={(threshold) => update({ threshold })} />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <Label className="text-gray-300">Maximum size</Label>
+              <Select
+                value={String(settings.maxDimension)}
+                onValueChange={(value) => update({ maxDimension: Number(value) })}
+              >
+                <SelectTrigger className="w-36 bg-gray-800 border-gray-700 text-gray-200">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MAX_DIMENSION_OPTIONS.map((size) => (
+                    <SelectItem key={size} value={String(size)}>
+                      {size} px
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="ghost" className="hover:bg-gray-800" onClick={() => setSettings(DEFAULT_IMAGE_EDITS)}>
+            Reset all
+          </Button>
+          <Button className="bg-blue-600 hover:bg-blue-700" disabled={!image || isSaving} onClick={handleApply}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Use edited page
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
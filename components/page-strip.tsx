@@ -0,0 +1,151 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { ChevronLeft, ChevronRight, EyeOff, FileText, Plus, X } from "lucide-react"
+import Image from "next/image"
+import { Button } from "@/components/ui/button"
+import type { ImageEditSettings } from "@/lib/image-processing"
+import type { RedactionBox } from "@/lib/redaction"
+import { cn } from "@/lib/utils"
+import { ACCEPTED_FILE_TYPES } from "@/lib/uploads"
+
+export interface ContractPage {
+  id: string
+  file: File
+  /** Data URL for image pages, null for PDFs */
+  preview: string | null
+  /** The upload as it was before editing, so edits can be redone from scratch */
+  original?: { file: File; preview: string }
+  edits?: ImageEditSettings
+  /** The page before redaction, so boxes can be changed or removed later */
+  unredacted?: { file: File; preview: string | null }
+  redactions?: RedactionBox[]
+}
+
+interface PageStripProps {
+  pages: ContractPage[]
+  activePageId: string | null
+  disabled?: boolean
+  onSelect: (id: string) => void
+  onRemove: (id: string) => void
+  onMove: (fromIndex: number, toIndex: number) => void
+  onAddFiles: (files: FileList) => void
+}
+
+export function PageStrip({ pages, activePageId, disabled, onSelect, onRemove, onMove, onAddFiles }: PageStripProps) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>, index: number) => {
+    e.preventDefault()
+    e.stopPropagation()
+    if (dragIndex !== null && dragIndex !== index) {
+      onMove(dragIndex, index)
+    }
+    setDragIndex(null)
+  }
+
+  return (
+    <div className="flex gap-2 overflow-x-auto pb-2">
+      {pages.map((page, index) => (
+        <div
+          key={page.id}
+          draggable={!disabled}
+          onDragStart={() => setDragIndex(index)}
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={(e) => handleDrop(e, index)}
+          onDragEnd={() => setDragIndex(null)}
+          onClick={() => onSelect(page.id)}
+          className={cn(
+            "group relative h-24 w-[72px] flex-shrink-0 cursor-pointer rounded-md border bg-gray-800 overflow-hidden",
+            page.id === activePageId ? "border-blue-500" : "border-gray-700",
+            dragIndex === index && "opacity-50",
+          )}
+        >
+          {page.preview ? (
+            <Image src={page.preview} alt={`Page ${index + 1}`} fill className="object-cover" />
+          ) : (
+            <div className="flex h-full items-center justify-center">
+              <FileText className="h-6 w-6 text-gray-500" />
+            </div>
+          )}
+
+          <span className="absolute bottom-1 left-1 rounded bg-gray-950/80 px-1 text-xs text-gray-200">
+            {index + 1}
+          </span>
+
+          {page.redactions?.length ? (
+            <span title="Redacted" className="absolute top-1 left-1 rounded bg-gray-950/80 p-0.5 text-gray-200">
+              <EyeOff className="h-3 w-3" />
+            </span>
+          ) : null}
+
+          {!disabled && (
+            <>
+              <button
+                type="button"
+                aria-label={`Remove page ${index + 1}`}
+                onClick={(e) => {
+                  e.stopPropagation()
+                  onRemove(page.id)
+                }}
+                className="absolute top-1 right-1 rounded-full bg-gray-950/80 p-0.5 text-gray-300 hover:text-white"
+              >
+                <X className="h-3 w-3" />
+              </button>
+              <div className="absolute bottom-1 right-1 hidden gap-0.5 group-hover:flex">
+                <button
+                  type="button"
+                  aria-label={`Move page ${index + 1} earlier`}
+                  disabled={index === 0}
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    onMove(index, index - 1)
+                  }}
+                  className="rounded bg-gray-950/80 text-gray-300 hover:text-white disabled:opacity-30"
+                >
+                  <ChevronLeft className="h-3 w-3" />
+                </button>
+                <button
+                  type="button"
+                  aria-label={`Move page ${index + 1} later`}
+                  disabled={index === pages.length - 1}
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    onMove(index, index + 1)
+                  }}
+                  className="rounded bg-gray-950/80 text-gray-300 hover:text-white disabled:opacity-30"
+                >
+                  <ChevronRight className="h-3 w-3" />
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      ))}
+
+      {!disabled && (
+        <Button
+          asChild
+          variant="outline"
+          className="h-24 w-[72px] flex-shrink-0 flex-col border-dashed border-gray-700 bg-transparent text-gray-400 hover:bg-gray-800 hover:text-gray-200"
+        >
+          <label>
+            <Plus className="h-5 w-5" />
+            <span className="text-xs">Add page</span>
+            <input
+              type="file"
+              multiple
+              className="sr-only"
+              onChange={(e) => {
+                if (e.target.files) onAddFiles(e.target.files)
+                e.target.value = ""
+              }}
+              accept={ACCEPTED_FILE_TYPES}
+            />
+          </label>
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,253 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { ChevronLeft, ChevronRight, Loader2, ZoomIn, ZoomOut } from "lucide-react"
+import type { PDFDocumentProxy, RenderTask } from "unpdf/pdfjs"
+import { RegionOverlay, type HighlightRegion } from "@/components/contract-preview"
+import { Button } from "@/components/ui/button"
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+  type CarouselApi,
+} from "@/components/ui/carousel"
+import { ScrollArea, ScrollBar } from "@/components/ui/scroll-area"
+import { openPdf, renderPdfPage } from "@/lib/pdf-client"
+import { cn } from "@/lib/utils"
+
+const ZOOM_LEVELS = [0.5, 0.75, 1, 1.5, 2, 3]
+const THUMBNAIL_WIDTH = 64
+
+interface PdfViewerProps {
+  file: File
+  /** 1-based page within the PDF */
+  page: number
+  onPageChange: (page: number) => void
+  regions: HighlightRegion[]
+  activeRegionId: string | null
+  onRegionHover: (id: string | null) => void
+  onRegionClick: (id: string) => void
+}
+
+/** Renders a PDF page by page with zoom and a thumbnail strip, using the pdf.js build bundled with unpdf */
+export function PdfViewer({ file, page, onPageChange, ...overlay }: PdfViewerProps) {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null)
+  const [failed, setFailed] = useState(false)
+  const [zoom, setZoom] = useState(1)
+  const [thumbnails, setThumbnails] = useState<string[]>([])
+  const [carouselApi, setCarouselApi] = useState<CarouselApi>()
+  const viewportRef = useRef<HTMLDivElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  const pageCount = pdf?.numPages ?? 0
+  const currentPage = pageCount ? Math.min(Math.max(page, 1), pageCount) : 1
+  const zoomIndex = ZOOM_LEVELS.indexOf(zoom)
+
+  useEffect(() => {
+    let cancelled = false
+    let loaded: PDFDocumentProxy | null = null
+
+    setPdf(null)
+    setFailed(false)
+    setThumbnails([])
+    setZoom(1)
+
+    const load = async () => {
+      try {
+        loaded = await openPdf(file)
+        if (!cancelled) setPdf(loaded)
+      } catch (error) {
+        console.error("Error loading PDF:", error)
+        if (!cancelled) setFailed(true)
+      }
+    }
+
+    load()
+    return () => {
+      cancelled = true
+      loaded?.destroy()
+    }
+  }, [file])
+
+  // Render the current page, scaled so the whole page fits the viewer at 100%
+  useEffect(() => {
+    if (!pdf) return
+
+    let cancelled = false
+    let renderTask: RenderTask | null = null
+
+    const render = async () => {
+      const pdfPage = await pdf.getPage(currentPage)
+      if (cancelled) return
+      const canvas = canvasRef.current
+      const container = viewportRef.current
+      const context = canvas?.getContext("2d")
+      if (cancelled || !canvas || !container || !context) return
+
+      const natural = pdfPage.getViewport({ scale: 1 })
+      const fit = Math.min(container.clientWidth / natural.width, container.clientHeight / natural.height)
+      const viewport = pdfPage.getViewport({ scale: fit * zoom })
+      const ratio = window.devicePixelRatio || 1
+
+      canvas.width = Math.floor(viewport.width * ratio)
+      canvas.height = Math.floor(viewport.height * ratio)
+      canvas.style.width = `${Math.floor(viewport.width)}px`
+      canvas.style.height = `${Math.floor(viewport.height)}px`
+
+      renderTask = pdfPage.render({
+        canvasContext: context,
+        viewport,
+        transform: ratio === 1 ? undefined : [ratio, 0, 0, ratio, 0, 0],
+      })
+      await renderTask.promise
+    }
+
+    // Switching pages cancels the render, and switching files destroys the document mid-render; both reject
+    render().catch((error) => {
+      if (!cancelled && !pdf.loadingTask.destroyed) console.error("Error rendering PDF page:", error)
+    })
+    return () => {
+      cancelled = true
+      renderTask?.cancel()
+    }
+  }, [pdf, currentPage, zoom])
+
+  // Thumbnails are rendered one page at a time so the first page is not held up by the rest
+  useEffect(() => {
+    if (!pdf) return
+
+    let cancelled = false
+    const renderThumbnails = async () => {
+      for (let pageNumber = 1; pageNumber <= pdf.numPages && !cancelled; pageNumber++) {
+        const natural = (await pdf.getPage(pageNumber)).getViewport({ scale: 1 })
+        const canvas = await renderPdfPage(pdf, pageNumber, (THUMBNAIL_WIDTH * 2) / natural.width)
+        const thumbnail = canvas.toDataURL("image/png")
+        if (!cancelled) setThumbnails((prev) => [...prev, thumbnail])
+      }
+    }
+
+    renderThumbnails().catch((error) => {
+      if (!cancelled && !pdf.loadingTask.destroyed) console.error("Error rendering PDF thumbnails:", error)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [pdf])
+
+  useEffect(() => {
+    carouselApi?.scrollTo(currentPage - 1)
+  }, [carouselApi, currentPage])
+
+  if (failed) {
+    return (
+      <div className="h-[300px] border border-gray-700 rounded-md flex items-center justify-center bg-gray-800 text-sm text-gray-400">
+        This PDF could not be displayed, but it can still be analyzed.
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="border border-gray-700 rounded-md bg-gray-800 overflow-hidden">
+        <div className="flex items-center justify-between border-b border-gray-700 px-2 py-1 text-xs text-gray-300">
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              aria-label="Previous page"
+              disabled={currentPage <= 1}
+              onClick={() => onPageChange(currentPage - 1)}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span>{pageCount ? `Page ${currentPage} of ${pageCount}` : "Loading…"}</span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              aria-label="Next page"
+              disabled={currentPage >= pageCount}
+              onClick={() => onPageChange(currentPage + 1)}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              aria-label="Zoom out"
+              disabled={zoomIndex <= 0}
+              onClick={() => setZoom(ZOOM_LEVELS[zoomIndex - 1])}
+            >
+              <ZoomOut className="h-4 w-4" />
+            </Button>
+            <button type="button" className="w-10 hover:text-white" title="Fit page" onClick={() => setZoom(1)}>
+              {Math.round(zoom * 100)}%
+            </button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              aria-label="Zoom in"
+              disabled={zoomIndex >= ZOOM_LEVELS.length - 1}
+              onClick={() => setZoom(ZOOM_LEVELS[zoomIndex + 1])}
+            >
+              <ZoomIn className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <ScrollArea ref={viewportRef} className="h-[260px]">
+          <div className="flex min-h-[260px] min-w-full w-max items-center justify-center">
+            {pdf ? (
+              <div className="relative">
+                <canvas ref={canvasRef} className="block bg-white" />
+                <RegionOverlay {...overlay} />
+              </div>
+            ) : (
+              <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+            )}
+          </div>
+          <ScrollBar orientation="horizontal" />
+        </ScrollArea>
+      </div>
+
+      {pageCount > 1 && (
+        <Carousel setApi={setCarouselApi} opts={{ align: "start", dragFree: true }} className="px-9">
+          <CarouselContent className="-ml-2">
+            {Array.from({ length: pageCount }, (_, index) => (
+              <CarouselItem key={index} className="basis-auto pl-2">
+                <button
+                  type="button"
+                  aria-label={`Go to page ${index + 1}`}
+                  onClick={() => onPageChange(index + 1)}
+                  className={cn(
+                    "relative flex h-20 items-center justify-center overflow-hidden rounded border bg-gray-800",
+                    index + 1 === currentPage ? "border-blue-500" : "border-gray-700",
+                  )}
+                  style={{ width: THUMBNAIL_WIDTH }}
+                >
+                  {thumbnails[index] ? (
+                    <img src={thumbnails[index]} alt={`Page ${index + 1}`} className="max-h-full max-w-full" />
+                  ) : (
+                    <Loader2 className="h-4 w-4 animate-spin text-gray-600" />
+                  )}
+                  <span className="absolute bottom-0.5 left-0.5 rounded bg-gray-950/80 px-1 text-[10px] text-gray-200">
+                    {index + 1}
+                  </span>
+                </button>
+              </CarouselItem>
+            ))}
+          </CarouselContent>
+          <CarouselPrevious className="left-0 h-7 w-7 border-gray-700 bg-gray-800 text-gray-300" />
+          <CarouselNext className="right-0 h-7 w-7 border-gray-700 bg-gray-800 text-gray-300" />
+        </Carousel>
+      )}
+    </div>
+  )
+}
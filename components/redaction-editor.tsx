@@ -0,0 +1,295 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useRef, useState } from "react"
+import { ChevronLeft, ChevronRight, Loader2, ScanSearch, X } from "lucide-react"
+import type { PDFDocumentProxy } from "unpdf/pdfjs"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import type { Point } from "@/lib/image-processing"
+import { openPdf, renderPdfPage } from "@/lib/pdf-client"
+import { describeRedaction, detectRedactions, type RedactionBox } from "@/lib/redaction"
+import { extractTextBoxes, redactImage, redactPdf } from "@/lib/redaction-canvas"
+
+/** Scale PDF pages are drawn at while redacting; boxes are stored normalized so this only affects sharpness */
+const PDF_PREVIEW_SCALE = 1.5
+/** Drags smaller than this fraction of the page are treated as clicks */
+const MIN_DRAWN_SIZE = 0.005
+
+export interface RedactionResult {
+  file: File
+  preview: string | null
+  boxes: RedactionBox[]
+}
+
+interface RedactionEditorProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** The page before any redaction; boxes are always burned into it from scratch */
+  file: File
+  preview: string | null
+  initialBoxes?: RedactionBox[]
+  /** Called with null when every box was removed, to restore the unredacted page */
+  onApply: (result: RedactionResult | null) => void
+}
+
+export function RedactionEditor({ open, onOpenChange, file, preview, initialBoxes, onApply }: RedactionEditorProps) {
+  const isPdf = file.type === "application/pdf"
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null)
+  const [page, setPage] = useState(1)
+  const [pageImage, setPageImage] = useState<string | null>(isPdf ? null : preview)
+  const [boxes, setBoxes] = useState<RedactionBox[]>(initialBoxes ?? [])
+  const [draft, setDraft] = useState<{ start: Point; end: Point } | null>(null)
+  const [detectMessage, setDetectMessage] = useState<string | null>(null)
+  const [isDetecting, setIsDetecting] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const surfaceRef = useRef<HTMLDivElement>(null)
+
+  const pageCount = isPdf ? (pdf?.numPages ?? 0) : 1
+  const pageBoxes = boxes.filter((box) => box.page === page)
+
+  useEffect(() => {
+    if (!open) return
+    setBoxes(initialBoxes ?? [])
+    setPage(1)
+    setDetectMessage(null)
+    if (!isPdf) {
+      setPageImage(preview)
+      return
+    }
+
+    let cancelled = false
+    let loaded: PDFDocumentProxy | null = null
+    openPdf(file)
+      .then((opened) => {
+        loaded = opened
+        if (!cancelled) setPdf(opened)
+      })
+      .catch((error) => console.error("Error loading PDF for redaction:", error))
+    return () => {
+      cancelled = true
+      loaded?.destroy()
+      setPdf(null)
+    }
+  }, [open, file, preview, isPdf, initialBoxes])
+
+  useEffect(() => {
+    if (!pdf) return
+
+    let cancelled = false
+    setPageImage(null)
+    renderPdfPage(pdf, page, PDF_PREVIEW_SCALE)
+      .then((canvas) => !cancelled && setPageImage(canvas.toDataURL("image/png")))
+      .catch((error) => console.error("Error rendering PDF page:", error))
+    return () => {
+      cancelled = true
+    }
+  }, [pdf, page])
+
+  const pointFrom = (e: React.PointerEvent): Point | null => {
+    const bounds = surfaceRef.current?.getBoundingClientRect()
+    if (!bounds) return null
+    return {
+      x: Math.min(Math.max((e.clientX - bounds.left) / bounds.width, 0), 1),
+      y: Math.min(Math.max((e.clientY - bounds.top) / bounds.height, 0), 1),
+    }
+  }
+
+  const finishDraft = () => {
+    if (!draft) return
+    const { start, end } = draft
+    const box = {
+      x: Math.min(start.x, end.x),
+      y: Math.min(start.y, end.y),
+      width: Math.abs(end.x - start.x),
+      height: Math.abs(end.y - start.y),
+    }
+    if (box.width >= MIN_DRAWN_SIZE && box.height >= MIN_DRAWN_SIZE) {
+      setBoxes((prev) => [...prev, { id: crypto.randomUUID(), page, ...box }])
+    }
+    setDraft(null)
+  }
+
+  const detectSensitiveText = async () => {
+    if (!pdf) return
+
+    setIsDetecting(true)
+    try {
+      const found: RedactionBox[] = []
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        found.push(...detectRedactions(await extractTextBoxes(pdf, pageNumber), pageNumber))
+      }
+      const added = found.filter((box) => !boxes.some((existing) => existing.id === box.id))
+      setBoxes((prev) => [...prev, ...added])
+      setDetectMessage(
+        added.length
+          ? `Covered ${added.length} SSN or account number${added.length === 1 ? "" : "s"}. Check every page before applying.`
+          : "No SSNs or account numbers were found in the text layer.",
+      )
+    } catch (error) {
+      console.error("Error detecting sensitive text:", error)
+      setDetectMessage("This PDF's text could not be searched. Draw boxes by hand instead.")
+    } finally {
+      setIsDetecting(false)
+    }
+  }
+
+  const handleApply = async () => {
+    if (boxes.length === 0) {
+      onApply(null)
+      onOpenChange(false)
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      if (isPdf) {
+        onApply({ file: await redactPdf(file, boxes), preview: null, boxes })
+      } else if (preview) {
+        onApply({ ...(await redactImage(preview, file, boxes)), boxes })
+      }
+      onOpenChange(false)
+    } catch (error) {
+      console.error("Error applying redactions:", error)
+      setDetectMessage("The redactions could not be applied. Please try again.")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl bg-gray-900 border-gray-800 text-gray-200">
+        <DialogHeader>
+          <DialogTitle>Redact personal information</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Drag over anything you don&apos;t want sent for analysis, such as your SSN, driver&apos;s license, date of
+            birth, address or bank details. Covered areas are blacked out in the uploaded file.
+            {isPdf && " Redacted PDF pages are sent as images, so their text layer is removed too."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex h-[420px] items-center justify-center rounded-md border border-gray-700 bg-gray-800">
+          {pageImage ? (
+            <div
+              ref={surfaceRef}
+              className="relative max-h-full cursor-crosshair touch-none select-none"
+              onPointerDown={(e) => {
+                const point = pointFrom(e)
+                if (!point) return
+                e.currentTarget.setPointerCapture(e.pointerId)
+                setDraft({ start: point, end: point })
+              }}
+              onPointerMove={(e) => {
+                const point = pointFrom(e)
+                if (draft && point) setDraft({ ...draft, end: point })
+              }}
+              onPointerUp={finishDraft}
+            >
+              <img src={pageImage} alt={`Page ${page}`} className="block max-h-[418px] max-w-full" draggable={false} />
+              {pageBoxes.map((box) => (
+                <div
+                  key={box.id}
+                  title={describeRedaction(box)}
+                  className="group absolute bg-black/85 ring-1 ring-red-500/60"
+                  style={{
+                    left: `${box.x * 100}%`,
+                    top: `${box.y * 100}%`,
+                    width: `${box.width * 100}%`,
+                    height: `${box.height * 100}%`,
+                  }}
+                >
+                  <button
+                    type="button"
+                    aria-label={`Remove ${describeRedaction(box).toLowerCase()} redaction`}
+                    onPointerDown={(e) => e.stopPropagation()}
+                    onClick={() => setBoxes((prev) => prev.filter((b) => b.id !== box.id))}
+                    className="absolute -right-2 -top-2 hidden rounded-full bg-red-600 p-0.5 text-white group-hover:block"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+              {draft && (
+                <div
+                  className="pointer-events-none absolute border border-red-400 bg-black/60"
+                  style={{
+                    left: `${Math.min(draft.start.x, draft.end.x) * 100}%`,
+                    top: `${Math.min(draft.start.y, draft.end.y) * 100}%`,
+                    width: `${Math.abs(draft.end.x - draft.start.x) * 100}%`,
+                    height: `${Math.abs(draft.end.y - draft.start.y) * 100}%`,
+                  }}
+                />
+              )}
+            </div>
+          ) : (
+            <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+          {isPdf ? (
+            <div className="flex items-center gap-1 text-gray-300">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                aria-label="Previous page"
+                disabled={page <= 1}
+                onClick={() => setPage(page - 1)}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span>{pageCount ? `Page ${page} of ${pageCount}` : "Loading…"}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                aria-label="Next page"
+                disabled={page >= pageCount}
+                onClick={() => setPage(page + 1)}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          ) : (
+            <span />
+          )}
+          <div className="flex items-center gap-2">
+            <span className="text-gray-500">
+              {boxes.length} box{boxes.length === 1 ? "" : "es"}
+            </span>
+            {isPdf && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="border-gray-700 bg-gray-800 hover:bg-gray-700"
+                disabled={!pdf || isDetecting}
+                onClick={detectSensitiveText}
+              >
+                {isDetecting ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <ScanSearch className="mr-1 h-4 w-4" />}
+                Find SSNs and account numbers
+              </Button>
+            )}
+          </div>
+        </div>
+        {detectMessage && <p className="text-xs text-gray-400">{detectMessage}</p>}
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="ghost"
+            className="hover:bg-gray-800"
+            disabled={boxes.length === 0}
+            onClick={() => setBoxes([])}
+          >
+            Clear all
+          </Button>
+          <Button className="bg-blue-600 hover:bg-blue-700" disabled={isSaving} onClick={handleApply}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {boxes.length === 0 ? "Send without redactions" : "Apply redactions"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,64 @@
+"use client"
+
+import { Bar, BarChart, XAxis, YAxis } from "recharts"
+import { AlertTriangle, CheckCircle } from "lucide-react"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import type { ScoreBreakdown as Breakdown } from "@/lib/scoring"
+
+const chartConfig = {
+  points: { label: "Points", color: "#22c55e" },
+  missed: { label: "Missed", color: "#374151" },
+} satisfies ChartConfig
+
+const SEVERITY_COLORS = { high: "text-red-400", warning: "text-yellow-400", good: "text-green-400" }
+
+/** Bar chart of the points each rubric component earned, with the issues that took points off */
+export function ScoreBreakdown({ breakdown }: { breakdown: Breakdown }) {
+  const data = breakdown.components.map((component) => ({
+    label: component.label,
+    points: component.points,
+    missed: Math.round((component.weight - component.points) * 10) / 10,
+  }))
+
+  return (
+    <div className="space-y-4 text-left">
+      <ChartContainer config={chartConfig} className="aspect-auto h-[220px] w-full">
+        <BarChart data={data} layout="vertical" margin={{ left: 8, right: 8 }}>
+          <XAxis type="number" hide />
+          <YAxis type="category" dataKey="label" width={150} tickLine={false} axisLine={false} />
+          <ChartTooltip cursor={false} content={<ChartTooltipContent />} />
+          <Bar dataKey="points" stackId="score" fill="var(--color-points)" radius={[4, 0, 0, 4]} />
+          <Bar dataKey="missed" stackId="score" fill="var(--color-missed)" radius={[0, 4, 4, 0]} />
+        </BarChart>
+      </ChartContainer>
+
+      <div className="space-y-3">
+        {breakdown.components.map((component) => (
+          <div key={component.id} className="rounded-md bg-gray-800 p-3">
+            <div className="flex items-baseline justify-between">
+              <h4 className="font-medium text-gray-200">{component.label}</h4>
+              <span className="text-sm text-gray-300">
+                {component.points} / {component.weight}
+              </span>
+            </div>
+            <p className="mt-1 text-xs text-gray-400">{component.detail}</p>
+            {component.issues.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {component.issues.map((issue, index) => (
+                  <li key={index} className={`flex items-center text-xs ${SEVERITY_COLORS[issue.severity]}`}>
+                    {issue.severity === "good" ? (
+                      <CheckCircle className="mr-1.5 h-3 w-3 flex-shrink-0" />
+                    ) : (
+                      <AlertTriangle className="mr-1.5 h-3 w-3 flex-shrink-0" />
+                    )}
+                    {issue.title}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
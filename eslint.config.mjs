@@ -0,0 +1,19 @@
+import { dirname } from "node:path"
+import { fileURLToPath } from "node:url"
+import { FlatCompat } from "@eslint/eslintrc"
+
+const compat = new FlatCompat({ baseDirectory: dirname(fileURLToPath(import.meta.url)) })
+
+const eslintConfig = [
+  // Generated by shadcn/ui and kept as generated
+  { ignores: ["components/ui/**"] },
+  ...compat.extends("next/core-web-vitals", "next/typescript"),
+  {
+    rules: {
+      // Destructuring a field away to leave it out of the rest is done with an underscore name
+      "@typescript-eslint/no-unused-vars": ["error", { argsIgnorePattern: "^_", varsIgnorePattern: "^_" }],
+    },
+  },
+]
+
+export default eslintConfig
@@ -0,0 +1,160 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import type { SavedAnalysis } from "@/lib/history/types"
+import { renderThumbnail } from "@/lib/image-canvas"
+import {
+  deleteStoredAnalysis,
+  getStoredAnalysis,
+  listStoredAnalyses,
+  putStoredAnalysis,
+  withoutFiles,
+  type StoredAnalysis,
+} from "@/lib/history-db"
+
+/** An entry in the history list; `local` is false for analyses only found on the server */
+export type HistoryEntry = SavedAnalysis & { local: boolean }
+
+/** What the analyzer hands over to save; the name, dates and thumbnail are filled in here */
+export type AnalysisDraft = Pick<StoredAnalysis, "id" | "results" | "meta" | "state" | "redacted" | "files">
+
+const summaryOf = (analysis: StoredAnalysis): HistoryEntry => ({ ...withoutFiles(analysis), local: true })
+
+function byNewest(a: SavedAnalysis, b: SavedAnalysis) {
+  return b.updatedAt.localeCompare(a.updatedAt)
+}
+
+async function sendToServer(path: string, init: RequestInit) {
+  try {
+    const response = await fetch(path, init)
+    if (!response.ok && response.status !== 404) {
+      console.error(`History request to ${path} failed with status ${response.status}`)
+    }
+  } catch (error) {
+    console.error("History request failed:", error)
+  }
+}
+
+/**
+ * The user's saved analyses. They are kept in IndexedDB with the uploaded
+ * pages, and mirrored without the pages to the server store when it is
+ * enabled. The server only returns the entries this browser saved, tied to it
+ * by an httpOnly cookie.
+ */
+export function useAnalysisHistory() {
+  const [entries, setEntries] = useState<HistoryEntry[]>([])
+  const [serverEnabled, setServerEnabled] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const load = async () => {
+      const local = await listStoredAnalyses().catch((error) => {
+        console.error("Error loading the history:", error)
+        return [] as StoredAnalysis[]
+      })
+      if (cancelled) return
+      setEntries(local.map(summaryOf))
+
+      const response = await fetch("/api/history").catch(() => null)
+      if (cancelled || !response?.ok) return
+
+      const remote = (await response.json()) as SavedAnalysis[]
+      setServerEnabled(true)
+      setEntries((prev) => {
+        const known = new Set(prev.map((entry) => entry.id))
+        const remoteOnly = remote.filter((entry) => !known.has(entry.id)).map((entry) => ({ ...entry, local: false }))
+        return [...prev, ...remoteOnly].sort(byNewest)
+      })
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const save = useCallback(
+    async (draft: AnalysisDraft) => {
+      // Saving an analysis again, e.g. after a term is corrected, keeps the name the user gave it
+      const existing = entries.find((entry) => entry.id === draft.id)
+      const now = new Date().toISOString()
+      const thumbnail =
+        existing?.thumbnail ??
+        (draft.files[0] ? await renderThumbnail(draft.files[0]).catch(() => null) : null)
+      const analysis: StoredAnalysis = {
+        ...draft,
+        name: existing?.name ?? (draft.files[0]?.name.replace(/\.[^.]+$/, "") || "Untitled contract"),
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+        thumbnail,
+      }
+
+      setEntries((prev) => [summaryOf(analysis), ...prev.filter((entry) => entry.id !== analysis.id)])
+      await putStoredAnalysis(analysis).catch((error) => console.error("Error saving the analysis:", error))
+      if (serverEnabled) {
+        await sendToServer("/api/history", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(withoutFiles(analysis)),
+        })
+      }
+    },
+    [entries, serverEnabled],
+  )
+
+  /** The analysis with its pages, falling back to the server copy when it is not in this browser */
+  const open = useCallback(async (id: string): Promise<StoredAnalysis | null> => {
+    const local = await getStoredAnalysis(id).catch(() => null)
+    if (local) return local
+
+    const response = await fetch(`/api/history/${encodeURIComponent(id)}`).catch(() => null)
+    if (!response?.ok) return null
+    return { ...((await response.json()) as SavedAnalysis), files: [] }
+  }, [])
+
+  const rename = useCallback(
+    async (id: string, name: string) => {
+      const updatedAt = new Date().toISOString()
+      setEntries((prev) => prev.map((entry) => (entry.id === id ? { ...entry, name, updatedAt } : entry)))
+
+      const local = await getStoredAnalysis(id).catch(() => null)
+      if (local) {
+        const stored = await putStoredAnalysis({ ...local, name, updatedAt }).then(
+          () => true,
+          (error) => {
+            console.error("Error renaming the analysis:", error)
+            return false
+          },
+        )
+        if (!stored) {
+          // Put the stored name back so the list does not show a rename that was lost
+          const restored = { name: local.name, updatedAt: local.updatedAt }
+          setEntries((prev) => prev.map((entry) => (entry.id === id ? { ...entry, ...restored } : entry)))
+          return
+        }
+      }
+      if (serverEnabled) {
+        await sendToServer(`/api/history/${encodeURIComponent(id)}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ name }),
+        })
+      }
+    },
+    [serverEnabled],
+  )
+
+  const remove = useCallback(
+    async (id: string) => {
+      setEntries((prev) => prev.filter((entry) => entry.id !== id))
+      await deleteStoredAnalysis(id).catch((error) => console.error("Error deleting the analysis:", error))
+      if (serverEnabled) {
+        await sendToServer(`/api/history/${encodeURIComponent(id)}`, { method: "DELETE" })
+      }
+    },
+    [serverEnabled],
+  )
+
+  return { entries, save, open, rename, remove }
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest"
+import { analysisResultsSchema, type AnalysisResults } from "@/lib/analysis-schema"
+import lease from "@/lib/providers/fixtures/lease.json"
+import retail from "@/lib/providers/fixtures/retail-installment.json"
+import { addOnInterest, amortizationSchedule, loanInputs, MAX_TERM_MONTHS, scheduleToCsv } from "./amortization"
+
+const purchase = analysisResultsSchema.parse(retail)
+
+const withTerm = (termMonths: number): AnalysisResults => ({
+  ...purchase,
+  financials: { ...purchase.financials!, termMonths },
+})
+
+describe("loanInputs", () => {
+  it("reads the loan from the extracted figures", () => {
+    expect(loanInputs(purchase)).toMatchObject({ apr: purchase.financials!.apr, termMonths: 72 })
+  })
+
+  it("has no loan for a lease", () => {
+    expect(loanInputs(analysisResultsSchema.parse(lease))).toBeNull()
+  })
+
+  it.each([0, -12, 12.5, MAX_TERM_MONTHS + 1, 7200])("rejects a term of %s months", (termMonths) => {
+    expect(loanInputs(withTerm(termMonths))).toBeNull()
+  })
+
+  it("accepts the longest term", () => {
+    expect(loanInputs(withTerm(MAX_TERM_MONTHS))?.termMonths).toBe(MAX_TERM_MONTHS)
+  })
+})
+
+describe("amortizationSchedule", () => {
+  it("pays the balance to exactly zero", () => {
+    const rows = amortizationSchedule({ principal: 25_000, apr: 6.9, termMonths: 60 })
+    const last = rows.at(-1)!
+
+    expect(rows).toHaveLength(60)
+    expect(last.balance).toBe(0)
+    expect(last.cumulativePrincipal).toBe(25_000)
+    expect(rows[0].payment).toBe(493.85)
+    expect(rows[0].interest).toBe(143.75)
+  })
+
+  it("charges no interest at 0% APR", () => {
+    const rows = amortizationSchedule({ principal: 12_000, apr: 0, termMonths: 24 })
+    expect(rows.every((row) => row.interest === 0 && row.payment === 500)).toBe(true)
+  })
+})
+
+describe("addOnInterest", () => {
+  it("splits off the interest paid on financed add-ons", () => {
+    const inputs = loanInputs(purchase)!
+    const split = addOnInterest(purchase, inputs)!
+
+    expect(split.addOns).toBeGreaterThan(0)
+    expect(split.withoutAddOns).toBeLessThan(split.withAddOns)
+  })
+})
+
+describe("scheduleToCsv", () => {
+  it("writes a header and one line per month", () => {
+    const csv = scheduleToCsv(amortizationSchedule({ principal: 1_000, apr: 12, termMonths: 2 }))
+    expect(csv.split("\n")).toEqual([
+      "Month,Payment,Principal,Interest,Balance,Cumulative principal,Cumulative interest",
+      "1,507.51,497.51,10.00,502.49,497.51,10.00",
+      "2,507.51,502.49,5.02,0.00,1000.00,15.02",
+      "",
+    ])
+  })
+})
@@ -0,0 +1,105 @@
+import type { AnalysisResults } from "@/lib/analysis-schema"
+import { amortizedPayment, resolveAmountFinanced, roundCents } from "@/lib/finance"
+import { addOnTotal } from "@/lib/scoring"
+
+/** Longest term a schedule is drawn for; anything beyond is a misread figure, not a car loan */
+export const MAX_TERM_MONTHS = 600
+
+export interface LoanInputs {
+  principal: number
+  apr: number
+  termMonths: number
+}
+
+export interface AmortizationRow {
+  month: number
+  payment: number
+  principal: number
+  interest: number
+  balance: number
+  cumulativePrincipal: number
+  cumulativeInterest: number
+}
+
+export interface AddOnInterest {
+  addOns: number
+  /** Interest paid with the add-ons financed, as in the contract */
+  withAddOns: number
+  /** Interest that would be paid if the add-ons were left out of the amount financed */
+  withoutAddOns: number
+  /** Payment without the add-ons financed */
+  paymentWithoutAddOns: number
+}
+
+/**
+ * The amount financed, APR and term of a purchase loan, or null when any of
+ * them is missing or the term is not a whole number of months up to `MAX_TERM_MONTHS`
+ */
+export function loanInputs(results: AnalysisResults): LoanInputs | null {
+  const financials = results.financials
+  if (results.contractType === "lease" || !financials) return null
+
+  const principal = resolveAmountFinanced(financials)
+  const { apr, termMonths } = financials
+  if (principal == null || principal <= 0 || apr == null || apr < 0) return null
+  if (termMonths == null || !Number.isInteger(termMonths) || termMonths < 1 || termMonths > MAX_TERM_MONTHS) return null
+
+  return { principal, apr, termMonths }
+}
+
+/**
+ * Month-by-month split of the level payment into interest and principal. The
+ * final payment is adjusted so the balance ends at exactly zero.
+ */
+export function amortizationSchedule({ principal, apr, termMonths }: LoanInputs): AmortizationRow[] {
+  const rate = apr / 100 / 12
+  const payment = roundCents(amortizedPayment(principal, apr, termMonths))
+  const rows: AmortizationRow[] = []
+
+  let balance = principal
+  let cumulativePrincipal = 0
+  let cumulativeInterest = 0
+  for (let month = 1; month <= termMonths; month++) {
+    const interest = roundCents(balance * rate)
+    const principalPaid = month === termMonths ? roundCents(balance) : roundCents(Math.min(payment - interest, balance))
+    balance = roundCents(balance - principalPaid)
+    cumulativePrincipal = roundCents(cumulativePrincipal + principalPaid)
+    cumulativeInterest = roundCents(cumulativeInterest + interest)
+    rows.push({
+      month,
+      payment: roundCents(principalPaid + interest),
+      principal: principalPaid,
+      interest,
+      balance,
+      cumulativePrincipal,
+      cumulativeInterest,
+    })
+  }
+  return rows
+}
+
+const totalInterest = (inputs: LoanInputs) => amortizationSchedule(inputs).at(-1)?.cumulativeInterest ?? 0
+
+/** How much of the interest goes to financing the add-ons, or null when the contract has no priced add-ons */
+export function addOnInterest(results: AnalysisResults, inputs: LoanInputs): AddOnInterest | null {
+  const addOns = Math.min(addOnTotal(results), inputs.principal)
+  if (addOns <= 0) return null
+
+  const withoutAddOns = { ...inputs, principal: inputs.principal - addOns }
+  return {
+    addOns: roundCents(addOns),
+    withAddOns: totalInterest(inputs),
+    withoutAddOns: totalInterest(withoutAddOns),
+    paymentWithoutAddOns: roundCents(amortizedPayment(withoutAddOns.principal, inputs.apr, inputs.termMonths)),
+  }
+}
+
+export function scheduleToCsv(rows: AmortizationRow[]) {
+  const header = "Month,Payment,Principal,Interest,Balance,Cumulative principal,Cumulative interest"
+  const lines = rows.map((row) =>
+    [row.month, row.payment, row.principal, row.interest, row.balance, row.cumulativePrincipal, row.cumulativeInterest]
+      .map((value, index) => (index === 0 ? String(value) : value.toFixed(2)))
+      .join(","),
+  )
+  return [header, ...lines].join("\n") + "\n"
+}
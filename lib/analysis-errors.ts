@@ -0,0 +1,75 @@
+import { AnalysisValidationError, type AnalysisFieldError } from "@/lib/analysis-schema"
+import { scrubPii } from "@/lib/scrub"
+import { UploadError } from "@/lib/uploads"
+
+export interface AnalysisErrorResponse {
+  error: string
+  fieldErrors?: AnalysisFieldError[]
+}
+
+/** Machine-readable kind of failure, returned by the public API next to the message */
+export const ANALYSIS_ERROR_CODES = [
+  "invalid_upload",
+  "invalid_analysis",
+  "model_unavailable",
+  "rate_limited",
+  "unreadable_document",
+  "analysis_failed",
+] as const
+
+export type AnalysisErrorCode = (typeof ANALYSIS_ERROR_CODES)[number]
+
+export interface ClassifiedAnalysisError extends AnalysisErrorResponse {
+  code: AnalysisErrorCode
+  /** HTTP status the failure maps to */
+  status: number
+}
+
+/** Maps an error thrown while analyzing a contract to a user-facing message, with personal data scrubbed */
+export function describeAnalysisError(error: unknown): AnalysisErrorResponse {
+  const { error: message, fieldErrors } = classifyAnalysisError(error)
+  return fieldErrors ? { error: message, fieldErrors } : { error: message }
+}
+
+/** Same as `describeAnalysisError`, plus an error code and HTTP status for API responses */
+export function classifyAnalysisError(error: unknown): ClassifiedAnalysisError {
+  return scrubPii(mapAnalysisError(error))
+}
+
+function mapAnalysisError(error: unknown): ClassifiedAnalysisError {
+  if (error instanceof UploadError) {
+    return { code: "invalid_upload", status: 400, error: error.message }
+  }
+
+  if (error instanceof AnalysisValidationError) {
+    return {
+      code: "invalid_analysis",
+      status: 502,
+      error: "The AI returned an incomplete analysis. Please try again.",
+      fieldErrors: error.fieldErrors,
+    }
+  }
+
+  // Provide more specific error messages for common issues
+  if (error instanceof Error) {
+    if (error.message.includes("deprecated")) {
+      return {
+        code: "model_unavailable",
+        status: 503,
+        error: "The AI model is being updated. Please try again in a few moments.",
+      }
+    } else if (error.message.includes("rate limit")) {
+      return { code: "rate_limited", status: 429, error: "Too many requests. Please try again in a few minutes." }
+    } else if (error.message.includes("parse")) {
+      return {
+        code: "unreadable_document",
+        status: 422,
+        error: "Unable to analyze the contract. Please try a clearer image, straighten and enhance the page with Edit page, or use a different file.",
+      }
+    }
+
+    return { code: "analysis_failed", status: 500, error: error.message }
+  }
+
+  return { code: "analysis_failed", status: 500, error: "An unknown error occurred while analyzing the contract." }
+}
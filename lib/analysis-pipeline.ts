@@ -0,0 +1,161 @@
+import type { AnalysisProgressEvent } from "@/lib/analysis-progress"
+import {
+  AnalysisValidationError,
+  contractTermSchema,
+  contractTypeSchema,
+  parseAnalysisResults,
+  type AnalysisResults,
+  type ContractTerm,
+  type ContractType,
+} from "@/lib/analysis-schema"
+import type { PageSource } from "@/lib/document-parts"
+import { extractJsonCandidate, parseLenientJson, repairJson } from "@/lib/json-repair"
+import { logError } from "@/lib/log"
+import { CONTRACT_TYPE_PROMPT } from "@/lib/prompts"
+import type { AnalysisRequest, ContractAnalysisProvider, ConversationTurn, DocumentPart } from "@/lib/providers"
+
+export const DEFAULT_MAX_ATTEMPTS = 3
+
+export interface AnalysisMeta {
+  provider: string
+  model: string
+  /** Number of model calls it took to get a valid analysis */
+  attempts: number
+  /** How each page was sent to the model */
+  pages?: PageSource[]
+  /** True when the analysis was served from the cache instead of calling the model */
+  cached?: boolean
+}
+
+export interface GeneratedAnalysis {
+  data: AnalysisResults
+  meta: AnalysisMeta
+}
+
+export type ProgressCallback = (event: AnalysisProgressEvent) => void
+
+/** Contract terms that have fully arrived in a response that is still streaming */
+function partialContractTerms(text: string): ContractTerm[] {
+  let parsed: { contractTerms?: unknown }
+  try {
+    parsed = JSON.parse(repairJson(extractJsonCandidate(text)))
+  } catch {
+    return []
+  }
+  if (!Array.isArray(parsed.contractTerms)) return []
+
+  // Until the model moves on to the next section the last term may be cut off
+  const terms = /"potentialIssues"/.test(text) ? parsed.contractTerms : parsed.contractTerms.slice(0, -1)
+  return terms.flatMap((term) => {
+    const result = contractTermSchema.safeParse(term)
+    return result.success ? [result.data] : []
+  })
+}
+
+/** Streams the provider response, reporting progress and newly completed terms */
+function streamingRequest(request: AnalysisRequest, onProgress: ProgressCallback): AnalysisRequest {
+  let text = ""
+  let termCount = 0
+
+  return {
+    ...request,
+    onText(chunk) {
+      if (!text) {
+        onProgress({ type: "stage", stage: "streaming" })
+      }
+      text += chunk
+
+      const terms = partialContractTerms(text)
+      if (terms.length > termCount) {
+        termCount = terms.length
+        onProgress({ type: "partial-terms", contractTerms: terms })
+      }
+    },
+  }
+}
+
+function buildRepairPrompt(error: unknown) {
+  const problems =
+    error instanceof AnalysisValidationError
+      ? error.fieldErrors.map((fieldError) => `- ${fieldError.path}: ${fieldError.message}`).join("\n")
+      : `- ${error instanceof Error ? error.message : String(error)}`
+
+  return `
+    Your previous response could not be used because of these problems:
+    ${problems}
+
+    Respond again with the corrected analysis. Ensure your response is ONLY the JSON object
+    with the structure requested above and no additional text.
+  `
+}
+
+/**
+ * Asks the model whether the document is a purchase or a lease. Falls back to
+ * "purchase" when the answer can't be understood so analysis can continue.
+ */
+export async function detectContractType(
+  provider: ContractAnalysisProvider,
+  parts: DocumentPart[],
+): Promise<ContractType> {
+  const text = await provider.generate({ task: "detect-contract-type", prompt: CONTRACT_TYPE_PROMPT, parts })
+
+  try {
+    const parsed = parseLenientJson(text) as { contractType?: unknown }
+    return contractTypeSchema.parse(parsed.contractType)
+  } catch (error) {
+    logError("Could not detect the contract type, assuming a purchase:", error)
+    return "purchase"
+  }
+}
+
+/**
+ * Calls the provider and validates its response, asking the model to correct
+ * unparseable or schema-invalid output up to `maxAttempts` times in total.
+ */
+export async function generateAnalysis(
+  provider: ContractAnalysisProvider,
+  request: AnalysisRequest,
+  {
+    maxAttempts: requestedAttempts = DEFAULT_MAX_ATTEMPTS,
+    onProgress,
+  }: { maxAttempts?: number; onProgress?: ProgressCallback } = {},
+): Promise<GeneratedAnalysis> {
+  // Always call the model at least once, so there is a result or an error to report
+  const maxAttempts = Math.max(1, Math.floor(requestedAttempts) || 1)
+  const history: ConversationTurn[] = [...(request.history ?? [])]
+  let lastError: unknown
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    onProgress?.({
+      type: "stage",
+      stage: "model-started",
+      detail: attempt > 1 ? `Attempt ${attempt} of ${maxAttempts}` : undefined,
+    })
+
+    const attemptRequest = { ...request, history }
+    const text = await provider.generate(onProgress ? streamingRequest(attemptRequest, onProgress) : attemptRequest)
+    onProgress?.({ type: "stage", stage: "validating" })
+
+    try {
+      let parsed: unknown
+      try {
+        parsed = parseLenientJson(text)
+      } catch (parseError) {
+        throw new Error(
+          `Failed to parse the AI response: ${parseError instanceof Error ? parseError.message : parseError}`,
+        )
+      }
+
+      return {
+        data: parseAnalysisResults(parsed),
+        meta: { provider: provider.id, model: provider.model, attempts: attempt },
+      }
+    } catch (error) {
+      logError(`Analysis attempt ${attempt} of ${maxAttempts} failed:`, error)
+      lastError = error
+      history.push({ role: "model", text }, { role: "user", text: buildRepairPrompt(error) })
+    }
+  }
+
+  throw lastError
+}
@@ -0,0 +1,38 @@
+import type { AnalysisErrorResponse } from "@/lib/analysis-errors"
+import type { AnalysisMeta } from "@/lib/analysis-pipeline"
+import type { AnalysisResults, ContractTerm } from "@/lib/analysis-schema"
+import { readLines } from "@/lib/providers/stream"
+
+export const ANALYSIS_STAGES = [
+  { id: "upload-received", label: "Upload received" },
+  { id: "text-extracted", label: "Reading pages" },
+  { id: "model-started", label: "Sending to the AI model" },
+  { id: "streaming", label: "Receiving analysis" },
+  { id: "validating", label: "Validating response" },
+  { id: "rules", label: "Running payment and fee checks" },
+] as const
+
+export type AnalysisStage = (typeof ANALYSIS_STAGES)[number]["id"]
+
+export type AnalysisProgressEvent =
+  | { type: "stage"; stage: AnalysisStage; detail?: string }
+  /** Terms parsed from the response so far, before it has been validated */
+  | { type: "partial-terms"; contractTerms: ContractTerm[] }
+
+export type AnalysisStreamEvent =
+  | AnalysisProgressEvent
+  | { type: "result"; data: AnalysisResults; meta: AnalysisMeta }
+  | ({ type: "error" } & AnalysisErrorResponse)
+
+/** Reads newline-delimited JSON events from a streaming analysis response */
+export async function readAnalysisStream(response: Response, onEvent: (event: AnalysisStreamEvent) => void) {
+  if (!response.body) {
+    throw new Error("The analysis response had no body")
+  }
+
+  for await (const line of readLines(response.body)) {
+    if (line.trim()) {
+      onEvent(JSON.parse(line))
+    }
+  }
+}
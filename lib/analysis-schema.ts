@@ -0,0 +1,191 @@
+import { z } from "zod"
+
+const normalizeKeyword = (value: unknown) => (typeof value === "string" ? value.trim().toLowerCase() : value)
+
+const optionalText = z.preprocess((value) => (value === null ? undefined : value), z.string().optional())
+
+/** Accepts numbers or strings like "$28,500.00", "9.9%" or "72 months"; anything else becomes null */
+export const toNumberOrNull = (value: unknown) => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null
+  if (typeof value !== "string") return null
+  const parsed = Number.parseFloat(value.replace(/[$,%\s]/g, ""))
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+const numericField = z.preprocess(toNumberOrNull, z.number().nullable())
+
+export const termFlagSchema = z.preprocess(normalizeKeyword, z.enum(["normal", "warning", "high", "good"]))
+
+export const issueSeveritySchema = z.preprocess(normalizeKeyword, z.enum(["high", "warning", "good"]))
+
+const unitInterval = z.number().min(0).max(1)
+
+/** Where a term or issue appears: a 1-based page and a box normalized to the page size */
+export const sourceLocationSchema = z
+  .object({
+    page: z.number().int().min(1),
+    x: unitInterval,
+    y: unitInterval,
+    width: unitInterval,
+    height: unitInterval,
+  })
+  .refine((box) => box.x + box.width <= 1.001 && box.y + box.height <= 1.001, "Box extends past the page")
+
+/** A missing or malformed location is dropped rather than failing the whole analysis */
+const optionalLocation = sourceLocationSchema.optional().catch(undefined)
+
+export const contractTermSchema = z.object({
+  term: z.string().min(1),
+  value: z.preprocess((value) => (typeof value === "number" ? String(value) : value), z.string()),
+  flag: termFlagSchema,
+  details: optionalText,
+  location: optionalLocation,
+  /** Set when the user corrected the value the model read */
+  userEdited: z.boolean().optional(),
+  /** The value as the model read it, kept when the user edits it */
+  originalValue: optionalText,
+})
+
+/**
+ * Where an issue came from: the model, the deterministic checks run on the
+ * extracted figures, or the state rules engine
+ */
+export const issueSourceSchema = z.enum(["model", "computed", "rules"])
+
+export const ruleCitationSchema = z.object({
+  /** Rule entry the issue was checked against, e.g. `CA.docFee` */
+  ruleId: z.string(),
+  label: z.string(),
+  rulesVersion: z.string(),
+})
+
+export const potentialIssueSchema = z.object({
+  title: z.string().min(1),
+  description: z.string(),
+  severity: issueSeveritySchema,
+  recommendation: optionalText,
+  source: issueSourceSchema.default("model"),
+  citation: ruleCitationSchema.optional(),
+  location: optionalLocation,
+})
+
+export const loanFinancialsSchema = z.object({
+  purchasePrice: numericField,
+  downPayment: numericField,
+  tradeInValue: numericField,
+  amountFinanced: numericField,
+  /** Annual percentage rate, e.g. 9.9 for 9.9% */
+  apr: numericField,
+  termMonths: numericField,
+  monthlyPayment: numericField,
+})
+
+export const trustworthinessScoreSchema = z.preprocess(
+  (value) => (typeof value === "string" ? Number.parseFloat(value) : value),
+  z
+    .number()
+    .finite()
+    .min(0)
+    .max(100)
+    .transform((score) => Math.round(score)),
+)
+
+export const contractTypeSchema = z.preprocess(normalizeKeyword, z.enum(["purchase", "lease"]))
+
+export const leaseTermsSchema = z.object({
+  /** Gross capitalized cost, before any reduction */
+  capitalizedCost: numericField,
+  capCostReduction: numericField,
+  residualValue: numericField,
+  /** Money factor as printed, e.g. 0.0025 */
+  moneyFactor: numericField,
+  acquisitionFee: numericField,
+  dispositionFee: numericField,
+  /** Miles per year */
+  mileageAllowance: numericField,
+  /** Dollars per mile over the allowance */
+  excessMileageRate: numericField,
+  termMonths: numericField,
+  /** Base monthly payment before tax */
+  monthlyPayment: numericField,
+})
+
+export const feeBreakdownSchema = z.object({
+  documentationFee: numericField,
+  salesTax: numericField,
+  titleAndRegistration: numericField,
+})
+
+/** The federal Truth-in-Lending disclosure box found on US retail installment contracts */
+export const tilaDisclosureSchema = z.object({
+  apr: numericField,
+  financeCharge: numericField,
+  amountFinanced: numericField,
+  totalOfPayments: numericField,
+  totalSalePrice: numericField,
+})
+
+export const analysisResultsSchema = z.object({
+  contractTerms: z.array(contractTermSchema),
+  potentialIssues: z.array(potentialIssueSchema),
+  trustworthinessScore: trustworthinessScoreSchema,
+  /** The model's own score, kept for reference; `trustworthinessScore` comes from the scoring rubric */
+  modelScore: trustworthinessScoreSchema.optional(),
+  summary: z.string(),
+  contractType: contractTypeSchema.default("purchase"),
+  financials: loanFinancialsSchema.optional(),
+  fees: feeBreakdownSchema.optional(),
+  tilaDisclosure: tilaDisclosureSchema.nullable().optional(),
+  lease: leaseTermsSchema.optional(),
+  /** Dotted paths of figures the user corrected, e.g. `tilaDisclosure.apr` */
+  editedFields: z.array(z.string()).optional(),
+})
+
+export type TermFlag = z.infer<typeof termFlagSchema>
+export type IssueSeverity = z.infer<typeof issueSeveritySchema>
+export type SourceLocation = z.infer<typeof sourceLocationSchema>
+export type ContractTerm = z.infer<typeof contractTermSchema>
+export type IssueSource = z.infer<typeof issueSourceSchema>
+export type PotentialIssue = z.infer<typeof potentialIssueSchema>
+export type RuleCitation = z.infer<typeof ruleCitationSchema>
+export type ContractType = z.infer<typeof contractTypeSchema>
+export type LoanFinancials = z.infer<typeof loanFinancialsSchema>
+export type LeaseTerms = z.infer<typeof leaseTermsSchema>
+export type FeeBreakdown = z.infer<typeof feeBreakdownSchema>
+export type TilaDisclosure = z.infer<typeof tilaDisclosureSchema>
+export type AnalysisResults = z.infer<typeof analysisResultsSchema>
+
+export interface AnalysisFieldError {
+  /** Dotted path to the offending field, e.g. `contractTerms.2.flag` */
+  path: string
+  message: string
+}
+
+export class AnalysisValidationError extends Error {
+  readonly fieldErrors: AnalysisFieldError[]
+
+  constructor(fieldErrors: AnalysisFieldError[]) {
+    super(`The AI response did not match the expected format (${fieldErrors.length} invalid fields)`)
+    this.name = "AnalysisValidationError"
+    this.fieldErrors = fieldErrors
+  }
+}
+
+/**
+ * Validates and coerces a parsed model response, throwing an
+ * `AnalysisValidationError` listing every invalid field.
+ */
+export function parseAnalysisResults(raw: unknown): AnalysisResults {
+  const result = analysisResultsSchema.safeParse(raw)
+
+  if (!result.success) {
+    throw new AnalysisValidationError(
+      result.error.issues.map((issue) => ({
+        path: issue.path.join(".") || "(root)",
+        message: issue.message,
+      })),
+    )
+  }
+
+  return result.data
+}
@@ -0,0 +1,87 @@
+import {
+  DEFAULT_MAX_ATTEMPTS,
+  detectContractType,
+  generateAnalysis,
+  type GeneratedAnalysis,
+  type ProgressCallback,
+} from "@/lib/analysis-pipeline"
+import { analysisCacheKey, getAnalysisCache, type CachedAnalysis } from "@/lib/cache"
+import { applyComputedChecks } from "@/lib/computed-checks"
+import { prepareDocument } from "@/lib/document-parts"
+import { logError } from "@/lib/log"
+import { PROMPT_VERSION, buildAnalysisPrompt } from "@/lib/prompts"
+import { getAnalysisProvider } from "@/lib/providers"
+import { scrubPii } from "@/lib/scrub"
+import type { UploadedFile } from "@/lib/uploads"
+
+export interface AnalyzeContractOptions {
+  /** Two-letter code of the state whose fee rules apply */
+  state?: string | null
+  /** Skip the cache lookup and call the model again */
+  reanalyze?: boolean
+  /** Receives stage events and partial results while the analysis runs */
+  onProgress?: ProgressCallback
+}
+
+/** `ANALYSIS_MAX_ATTEMPTS` as a whole number of at least 1, or the default when unset or invalid */
+function maxAttemptsFromEnv(env: NodeJS.ProcessEnv = process.env) {
+  const attempts = Math.floor(Number(env.ANALYSIS_MAX_ATTEMPTS))
+  return attempts >= 1 ? attempts : DEFAULT_MAX_ATTEMPTS
+}
+
+async function runModelAnalysis(files: UploadedFile[], onProgress?: ProgressCallback): Promise<CachedAnalysis> {
+  const provider = getAnalysisProvider()
+  const { parts, pages } = await prepareDocument(files)
+  onProgress?.({
+    type: "stage",
+    stage: "text-extracted",
+    detail: `${pages.length} ${pages.length === 1 ? "page" : "pages"}`,
+  })
+
+  onProgress?.({ type: "stage", stage: "model-started", detail: "Detecting contract type" })
+  const contractType = await detectContractType(provider, parts)
+  const { data, meta } = await generateAnalysis(
+    provider,
+    { task: "analyze-contract", prompt: buildAnalysisPrompt(contractType, pages.length), parts },
+    { maxAttempts: maxAttemptsFromEnv(), onProgress },
+  )
+
+  return { data: { ...data, contractType }, meta: { ...meta, pages }, createdAt: new Date().toISOString() }
+}
+
+/**
+ * Analyzes the uploaded contract pages, reusing a cached model response for
+ * identical uploads unless `reanalyze` is set. The deterministic checks always
+ * run fresh because they depend on the request options. Everything returned or
+ * reported through `onProgress` has personal data scrubbed; the cache keeps the
+ * raw response so a policy change applies to cached analyses too.
+ */
+export async function analyzeContract(
+  files: UploadedFile[],
+  options: AnalyzeContractOptions = {},
+): Promise<GeneratedAnalysis> {
+  const report = options.onProgress
+  const onProgress: ProgressCallback | undefined = report && ((event) => report(scrubPii(event)))
+  onProgress?.({ type: "stage", stage: "upload-received" })
+
+  const cache = getAnalysisCache()
+  const cacheKey = analysisCacheKey(files, getAnalysisProvider(), PROMPT_VERSION)
+
+  let analysis = cache && !options.reanalyze ? await cache.get(cacheKey) : null
+  const cached = analysis !== null
+
+  if (!analysis) {
+    analysis = await runModelAnalysis(files, onProgress)
+    try {
+      await cache?.set(cacheKey, analysis)
+    } catch (error) {
+      logError("Error caching analysis:", error)
+    }
+  }
+
+  onProgress?.({ type: "stage", stage: "rules" })
+  return {
+    data: scrubPii(applyComputedChecks(analysis.data, { state: options.state })),
+    meta: { ...analysis.meta, cached },
+  }
+}
@@ -0,0 +1,45 @@
+import { createHash, timingSafeEqual } from "node:crypto"
+import { ApiError } from "./errors"
+
+const digest = (key: string) => createHash("sha256").update(key).digest()
+
+/** The keys accepted by the public API, from the comma-separated `API_KEYS` */
+export function apiKeysFromEnv(env: NodeJS.ProcessEnv = process.env) {
+  return (env.API_KEYS ?? "")
+    .split(",")
+    .map((key) => key.trim())
+    .filter(Boolean)
+}
+
+/** Reads the key from `Authorization: Bearer <key>` or the `X-API-Key` header */
+function presentedKey(request: Request) {
+  const authorization = request.headers.get("authorization")
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1]
+  return (bearer ?? request.headers.get("x-api-key") ?? "").trim()
+}
+
+/**
+ * Throws an `ApiError` unless the request carries one of the configured API
+ * keys. The API stays off until `API_KEYS` is set. Keys are compared through
+ * their hashes in constant time, checking every key so the timing does not
+ * reveal which one came close.
+ */
+export function requireApiKey(request: Request, keys = apiKeysFromEnv()) {
+  if (keys.length === 0) {
+    throw new ApiError(404, "api_disabled", "The public API is not enabled")
+  }
+
+  const key = presentedKey(request)
+  if (!key) {
+    throw new ApiError(401, "unauthorized", "Missing API key. Send it as a Bearer token or in the X-API-Key header.")
+  }
+
+  const presented = digest(key)
+  let matched = false
+  for (const candidate of keys) {
+    matched = timingSafeEqual(presented, digest(candidate)) || matched
+  }
+  if (!matched) {
+    throw new ApiError(401, "unauthorized", "Invalid API key")
+  }
+}
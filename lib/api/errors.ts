@@ -0,0 +1,64 @@
+import type { ZodError } from "zod"
+import { ANALYSIS_ERROR_CODES, classifyAnalysisError } from "@/lib/analysis-errors"
+import type { AnalysisFieldError } from "@/lib/analysis-schema"
+
+export const API_ERROR_CODES = [
+  ...ANALYSIS_ERROR_CODES,
+  "invalid_request",
+  "unauthorized",
+  "api_disabled",
+  "not_found",
+  "queue_full",
+] as const
+
+export type ApiErrorCode = (typeof API_ERROR_CODES)[number]
+
+/** Body of every API error response: the analyzer's message plus a stable code */
+export interface ApiErrorBody {
+  code: ApiErrorCode
+  error: string
+  fieldErrors?: AnalysisFieldError[]
+}
+
+/** A failure raised by the API layer itself, before or after the analysis runs */
+export class ApiError extends Error {
+  readonly status: number
+  readonly code: ApiErrorCode
+  readonly fieldErrors?: AnalysisFieldError[]
+
+  constructor(status: number, code: ApiErrorCode, message: string, fieldErrors?: AnalysisFieldError[]) {
+    super(message)
+    this.name = "ApiError"
+    this.status = status
+    this.code = code
+    this.fieldErrors = fieldErrors
+  }
+
+  /** A 400 listing every invalid field of a request body */
+  static fromZodError(error: ZodError, message = "Invalid request body") {
+    return new ApiError(
+      400,
+      "invalid_request",
+      message,
+      error.issues.map((issue) => ({ path: issue.path.join(".") || "(root)", message: issue.message })),
+    )
+  }
+}
+
+/** The envelope and status for an error; anything that is not an `ApiError` goes through the analyzer's mapping */
+export function describeApiError(error: unknown): { status: number; body: ApiErrorBody } {
+  if (error instanceof ApiError) {
+    return {
+      status: error.status,
+      body: { code: error.code, error: error.message, ...(error.fieldErrors && { fieldErrors: error.fieldErrors }) },
+    }
+  }
+
+  const { status, ...body } = classifyAnalysisError(error)
+  return { status, body }
+}
+
+export function apiErrorResponse(error: unknown, headers?: HeadersInit) {
+  const { status, body } = describeApiError(error)
+  return Response.json(body, { status, headers })
+}
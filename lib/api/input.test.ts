@@ -0,0 +1,116 @@
+import http from "node:http"
+import type { AddressInfo } from "node:net"
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest"
+import { UploadError } from "@/lib/uploads"
+import { ApiError } from "./errors"
+import { assertPublicUrl, fetchPublicUrl, readAnalysisInput } from "./input"
+
+const dns = vi.hoisted(() => ({ checked: "93.184.216.34", connected: "93.184.216.34" }))
+
+vi.mock("node:dns/promises", () => ({
+  lookup: async () => [{ address: dns.checked, family: 4 }],
+}))
+
+vi.mock("node:dns", () => ({
+  lookup: (_hostname: string, options: { all?: boolean }, callback: (...args: unknown[]) => void) =>
+    options.all ? callback(null, [{ address: dns.connected, family: 4 }]) : callback(null, dns.connected, 4),
+}))
+
+let server: http.Server
+let port: number
+let hits = 0
+
+beforeAll(async () => {
+  server = http.createServer((_request, response) => {
+    hits++
+    response.end("ok")
+  })
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+  port = (server.address() as AddressInfo).port
+})
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())))
+
+describe("assertPublicUrl", () => {
+  it.each([
+    "http://127.0.0.1/",
+    "http://10.1.2.3/",
+    "http://169.254.169.254/latest/meta-data/",
+    "http://[::1]/",
+    "http://[::]/",
+    "http://[fd00::1]/",
+    "http://[fe80::1]/",
+    "http://[::ffff:127.0.0.1]/",
+    "http://[::ffff:7f00:1]/",
+    "http://[::ffff:a9fe:a9fe]/",
+    "http://[::ffff:0:7f00:1]/",
+    "http://[::127.0.0.1]/",
+    "http://[::7f00:1]/",
+    "http://[64:ff9b::7f00:1]/",
+    "http://[64:ff9b::a9fe:a9fe]/",
+    "http://[64:ff9b:1::5db8:d822]/",
+    "http://[2002:7f00:1::]/",
+    "http://localhost/",
+  ])("rejects %s", async (url) => {
+    await expect(assertPublicUrl(new URL(url))).rejects.toThrow("URLs must point to a public host")
+  })
+
+  it.each([
+    "http://93.184.216.34/",
+    "https://[2606:2800:220:1:248:1893:25c8:1946]/",
+    "http://[::ffff:5db8:d822]/",
+    "http://[64:ff9b::5db8:d822]/",
+    "https://example.com/contract.pdf",
+  ])("accepts %s", async (url) => {
+    await expect(assertPublicUrl(new URL(url))).resolves.toBeUndefined()
+  })
+
+  it("rejects other protocols", async () => {
+    await expect(assertPublicUrl(new URL("file:///etc/passwd"))).rejects.toThrow("URLs must use http or https")
+  })
+})
+
+describe("fetchPublicUrl", () => {
+  it("does not connect to loopback written as an IPv4-mapped address", async () => {
+    hits = 0
+    await expect(fetchPublicUrl(new URL(`http://[::ffff:127.0.0.1]:${port}/`), { timeoutMs: 2000 })).rejects.toThrow(
+      UploadError,
+    )
+    expect(hits).toBe(0)
+  })
+
+  it("does not connect when the host resolves to a private address after the check", async () => {
+    hits = 0
+    dns.connected = "127.0.0.1"
+    await expect(fetchPublicUrl(new URL(`http://rebind.example:${port}/`), { timeoutMs: 2000 })).rejects.toThrow(
+      "URLs must point to a public host",
+    )
+    expect(hits).toBe(0)
+  })
+})
+
+describe("readAnalysisInput", () => {
+  it("refuses to download files from private addresses", async () => {
+    const request = new Request("http://localhost/api/v1/analyses", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ files: [{ url: "http://[::ffff:a9fe:a9fe]/latest/meta-data/" }] }),
+    })
+    await expect(readAnalysisInput(request)).rejects.toThrow("URLs must point to a public host")
+  })
+
+  it.each([
+    ["multipart/form-data; boundary=x", "not a form", "The multipart body could not be read"],
+    ["application/json", "{", "The request body is not valid JSON"],
+  ])("reports a malformed %s body as an invalid request", async (contentType, body, message) => {
+    const request = new Request("http://localhost/api/v1/analyses", {
+      method: "POST",
+      headers: { "Content-Type": contentType },
+      body,
+    })
+    const error = await readAnalysisInput(request).catch((error: unknown) => error)
+
+    expect(error).toBeInstanceOf(ApiError)
+    expect(error).toMatchObject({ status: 400, code: "invalid_request", message })
+  })
+})
@@ -0,0 +1,353 @@
+import { lookup as lookupCallback } from "node:dns"
+import { lookup } from "node:dns/promises"
+import http from "node:http"
+import https from "node:https"
+import { BlockList, isIP, type LookupFunction } from "node:net"
+import { Readable } from "node:stream"
+import type { z } from "zod"
+import { readBodyBytes, readFormDataBody } from "@/lib/request-body"
+import {
+  MAX_TOTAL_UPLOAD_BYTES,
+  MAX_UPLOAD_BODY_BYTES,
+  UploadError,
+  formatFileSize,
+  readContractFiles,
+  validateContractFiles,
+  type UploadedFile,
+} from "@/lib/uploads"
+import { ApiError } from "./errors"
+import {
+  base64FileSchema,
+  createAnalysisRequestSchema,
+  createJobRequestSchema,
+  urlFileSchema,
+  type CreateJobRequest,
+} from "./schemas"
+
+/** How long the server waits for a file given by URL */
+const URL_FETCH_TIMEOUT_MS = 15_000
+
+/** Largest JSON body read: the page budget in base64, plus room for the other fields */
+const MAX_JSON_INPUT_BYTES = Math.ceil((MAX_TOTAL_UPLOAD_BYTES * 4) / 3) + 1024 * 1024
+
+export interface AnalysisInput {
+  name: string
+  files: UploadedFile[]
+  state: string | null
+  reanalyze: boolean
+  /** Only read for jobs */
+  webhookUrl: string | null
+}
+
+export interface ReadAnalysisInputOptions {
+  /** Accept a `webhookUrl` field, as the jobs endpoint does */
+  webhook?: boolean
+  /** Validates the `webhookUrl`, before any file is read or downloaded */
+  checkWebhookUrl?: (url: string) => Promise<void>
+}
+
+type Base64File = z.infer<typeof base64FileSchema>
+type UrlFile = z.infer<typeof urlFileSchema>
+
+const tooLarge = () => new UploadError(`Combined file size exceeds the ${formatFileSize(MAX_TOTAL_UPLOAD_BYTES)} limit`)
+
+function fileNameFromUrl(url: URL) {
+  const segment = url.pathname.split("/").pop() ?? ""
+  try {
+    return decodeURIComponent(segment)
+  } catch {
+    return segment
+  }
+}
+
+const defaultName = (files: UploadedFile[]) => files[0]?.name || "Contract"
+
+/** Ranges that reach the server's own network, or nothing routable at all */
+const PRIVATE_RANGES = new BlockList()
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv4")
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b:1::", 48],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv6")
+}
+
+/** The eight 16-bit groups of an IPv6 address, or null if it is not one */
+function ipv6Groups(address: string): number[] | null {
+  let canonical: string
+  try {
+    // URL writes any dotted IPv4 tail as hex groups
+    canonical = new URL(`http://[${address}]/`).hostname.slice(1, -1)
+  } catch {
+    return null
+  }
+  const [head, tail] = canonical.split("::")
+  const parse = (part?: string) => (part ? part.split(":").map((group) => parseInt(group, 16)) : [])
+  const left = parse(head)
+  const right = parse(tail)
+  return [...left, ...Array<number>(8 - left.length - right.length).fill(0), ...right]
+}
+
+/**
+ * The IPv4 address an IPv6 address stands for: IPv4-mapped (`::ffff:a.b.c.d`),
+ * translated (`::ffff:0:a.b.c.d`), IPv4-compatible (`::a.b.c.d`), NAT64
+ * (`64:ff9b::a.b.c.d`) and 6to4 (`2002:aabb:ccdd::`) addresses all reach one.
+ */
+function embeddedIPv4(groups: number[]): string | null {
+  const dotted = (high: number, low: number) => [high >> 8, high & 255, low >> 8, low & 255].join(".")
+  const zeros = (from: number, to: number) => groups.slice(from, to).every((group) => group === 0)
+
+  if (zeros(0, 5) && groups[5] === 0xffff) return dotted(groups[6], groups[7])
+  if (zeros(0, 4) && groups[4] === 0xffff && groups[5] === 0) return dotted(groups[6], groups[7])
+  if (zeros(0, 6)) return dotted(groups[6], groups[7])
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && zeros(2, 6)) return dotted(groups[6], groups[7])
+  if (groups[0] === 0x2002) return dotted(groups[1], groups[2])
+  return null
+}
+
+function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 4) return PRIVATE_RANGES.check(address, "ipv4")
+
+  const groups = isIP(address) === 6 ? ipv6Groups(address) : null
+  if (!groups) return true
+  const embedded = embeddedIPv4(groups)
+  return embedded ? isPrivateAddress(embedded) : PRIVATE_RANGES.check(address, "ipv6")
+}
+
+/**
+ * Rejects URLs that point into the server's own network, throwing an
+ * `UploadError`. The host can resolve differently by the time it is contacted,
+ * so fetch such URLs with `fetchPublicUrl`, which checks again as it connects.
+ */
+export async function assertPublicUrl(url: URL) {
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new UploadError("URLs must use http or https")
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, "")
+  const addresses = isIP(hostname)
+    ? [hostname]
+    : await lookup(hostname, { all: true }).then(
+        (results) => results.map((result) => result.address),
+        () => {
+          throw new UploadError(`Could not resolve ${hostname}`)
+        },
+      )
+
+  if (hostname === "localhost" || addresses.some(isPrivateAddress)) {
+    throw new UploadError("URLs must point to a public host")
+  }
+}
+
+/** Resolves a host as a connection is opened, refusing it when any of its addresses is private */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, [])
+    if (addresses.some(({ address }) => isPrivateAddress(address))) {
+      return callback(new UploadError("URLs must point to a public host"), [])
+    }
+    if (options.all) callback(null, addresses)
+    else callback(null, addresses[0].address, addresses[0].family)
+  })
+}
+
+/** Statuses whose responses never have a body */
+const NULL_BODY_STATUSES = new Set([204, 205, 304])
+
+export interface PublicFetchInit {
+  method?: string
+  headers?: Record<string, string>
+  body?: string
+  timeoutMs: number
+}
+
+/**
+ * Fetches a URL that `assertPublicUrl` accepts. The connection resolves the
+ * host through a lookup that refuses private addresses, so only an address
+ * that was checked is contacted, even if the host's DNS answer changes after
+ * the first check. Redirects are returned as responses, never followed.
+ */
+export async function fetchPublicUrl(
+  url: URL,
+  { method = "GET", headers, body, timeoutMs }: PublicFetchInit,
+): Promise<Response> {
+  await assertPublicUrl(url)
+  const request = url.protocol === "https:" ? https.request : http.request
+
+  return new Promise((resolve, reject) => {
+    const outgoing = request(url, { method, headers, lookup: publicLookup, signal: AbortSignal.timeout(timeoutMs) })
+    outgoing.on("error", reject)
+    outgoing.on("response", (incoming) => {
+      const status = incoming.statusCode ?? 502
+      const responseHeaders = new Headers()
+      for (const [name, value] of Object.entries(incoming.headers)) {
+        for (const item of [value ?? []].flat()) responseHeaders.append(name, item)
+      }
+      if (NULL_BODY_STATUSES.has(status)) incoming.resume()
+      const responseBody = NULL_BODY_STATUSES.has(status) ? null : (Readable.toWeb(incoming) as ReadableStream<Uint8Array>)
+      resolve(new Response(responseBody, { status, headers: responseHeaders }))
+    })
+    outgoing.end(body)
+  })
+}
+
+/** Reads a response body, giving up as soon as it exceeds the remaining upload budget */
+async function readLimited(response: Response, limit: number) {
+  const declared = Number(response.headers.get("content-length"))
+  if (declared > limit) throw tooLarge()
+
+  const chunks: Uint8Array[] = []
+  let size = 0
+  const reader = response.body?.getReader()
+  while (reader) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.byteLength
+    if (size > limit) {
+      await reader.cancel()
+      throw tooLarge()
+    }
+    chunks.push(value)
+  }
+  return Buffer.concat(chunks)
+}
+
+async function downloadFile(file: UrlFile, index: number, budget: number) {
+  const url = new URL(file.url)
+
+  let response: Response
+  try {
+    response = await fetchPublicUrl(url, { timeoutMs: URL_FETCH_TIMEOUT_MS })
+  } catch (error) {
+    if (error instanceof UploadError) throw error
+    throw new UploadError(`Could not download file ${index + 1}`)
+  }
+  if (!response.ok) {
+    throw new UploadError(`Could not download file ${index + 1} (HTTP ${response.status})`)
+  }
+
+  const bytes = await readLimited(response, budget)
+  const mimeType = file.mimeType ?? response.headers.get("content-type")?.split(";")[0].trim() ?? ""
+  const name = file.name ?? (fileNameFromUrl(url) || `page-${index + 1}`)
+  return new File([bytes], name, { type: mimeType })
+}
+
+function decodeFile(file: Base64File, index: number) {
+  // Tolerate data URLs as well as bare base64
+  const data = file.data.replace(/^data:[^,]*;base64,/, "").replace(/\s+/g, "")
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(data)) {
+    throw new UploadError(`File ${index + 1} is not valid base64`)
+  }
+  if ((data.length * 3) / 4 > MAX_TOTAL_UPLOAD_BYTES) throw tooLarge()
+  return new File([Buffer.from(data, "base64")], file.name ?? `page-${index + 1}`, { type: file.mimeType })
+}
+
+async function toUploadedFiles(files: File[]): Promise<UploadedFile[]> {
+  validateContractFiles(files)
+  return Promise.all(
+    files.map(async (file) => ({ name: file.name, mimeType: file.type, bytes: new Uint8Array(await file.arrayBuffer()) })),
+  )
+}
+
+async function readJsonInput(
+  request: Request,
+  { webhook, checkWebhookUrl }: ReadAnalysisInputOptions,
+): Promise<AnalysisInput> {
+  const bytes = await readBodyBytes(request, MAX_JSON_INPUT_BYTES).catch(() => {
+    throw new ApiError(400, "invalid_request", "The request body could not be read")
+  })
+  if (!bytes) throw tooLarge()
+
+  let body: unknown
+  try {
+    body = JSON.parse(Buffer.from(bytes).toString("utf8"))
+  } catch {
+    throw new ApiError(400, "invalid_request", "The request body is not valid JSON")
+  }
+
+  const schema = webhook ? createJobRequestSchema : createAnalysisRequestSchema
+  const parsed = schema.safeParse(body)
+  if (!parsed.success) throw ApiError.fromZodError(parsed.error)
+  const data: CreateJobRequest = parsed.data
+  if (data.webhookUrl) await checkWebhookUrl?.(data.webhookUrl)
+
+  const files: File[] = []
+  let used = 0
+  for (const [index, file] of data.files.entries()) {
+    const loaded = "url" in file ? await downloadFile(file, index, MAX_TOTAL_UPLOAD_BYTES - used) : decodeFile(file, index)
+    used += loaded.size
+    files.push(loaded)
+  }
+
+  const uploaded = await toUploadedFiles(files)
+  return {
+    name: data.name ?? defaultName(uploaded),
+    files: uploaded,
+    state: data.state ?? null,
+    reanalyze: data.reanalyze ?? false,
+    webhookUrl: data.webhookUrl ?? null,
+  }
+}
+
+const analysisFormFields = createAnalysisRequestSchema.omit({ files: true })
+const jobFormFields = createJobRequestSchema.omit({ files: true })
+
+async function readMultipartInput(
+  request: Request,
+  { webhook, checkWebhookUrl }: ReadAnalysisInputOptions,
+): Promise<AnalysisInput> {
+  // Parse failures would otherwise be mapped like an unreadable contract
+  const formData = await readFormDataBody(request, MAX_UPLOAD_BODY_BYTES).catch(() => {
+    throw new ApiError(400, "invalid_request", "The multipart body could not be read")
+  })
+  if (!formData) throw tooLarge()
+  const options = (webhook ? jobFormFields : analysisFormFields).safeParse({
+    name: formData.get("name") ?? undefined,
+    state: formData.get("state") || null,
+    reanalyze: formData.get("reanalyze") === "true",
+    webhookUrl: formData.get("webhookUrl") || undefined,
+  })
+  if (!options.success) throw ApiError.fromZodError(options.error, "Invalid form fields")
+  const fields: Omit<CreateJobRequest, "files"> = options.data
+  if (fields.webhookUrl) await checkWebhookUrl?.(fields.webhookUrl)
+
+  const files = await readContractFiles(formData)
+  return {
+    name: fields.name ?? defaultName(files),
+    files,
+    state: fields.state ?? null,
+    reanalyze: fields.reanalyze ?? false,
+    webhookUrl: fields.webhookUrl ?? null,
+  }
+}
+
+/**
+ * Reads the pages and options of an analysis request: a multipart upload with
+ * the same fields as the analyzer form, or JSON with base64 data or URLs.
+ */
+export async function readAnalysisInput(
+  request: Request,
+  options: ReadAnalysisInputOptions = {},
+): Promise<AnalysisInput> {
+  const contentType = request.headers.get("content-type") ?? ""
+  if (contentType.startsWith("multipart/form-data")) return readMultipartInput(request, options)
+  if (contentType.startsWith("application/json")) return readJsonInput(request, options)
+  throw new ApiError(415, "invalid_request", "Send the contract as multipart/form-data or application/json")
+}
@@ -0,0 +1,88 @@
+import { z } from "zod"
+
+export type JsonSchema = Record<string, unknown>
+
+/** Everything a zod schema can do that JSON Schema cannot express is left out rather than approximated */
+function convert(schema: z.ZodTypeAny): JsonSchema {
+  const def = schema._def
+
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodString: {
+      const result: JsonSchema = { type: "string" }
+      for (const check of (schema as z.ZodString)._def.checks) {
+        if (check.kind === "min") result.minLength = check.value
+        else if (check.kind === "max") result.maxLength = check.value
+        else if (check.kind === "length") result.minLength = result.maxLength = check.value
+        else if (check.kind === "regex") result.pattern = check.regex.source
+        else if (check.kind === "url") result.format = "uri"
+        else if (check.kind === "email") result.format = "email"
+        else if (check.kind === "uuid") result.format = "uuid"
+        else if (check.kind === "datetime") result.format = "date-time"
+        else if (check.kind === "startsWith") result.pattern = `^${check.value.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&")}`
+      }
+      return result
+    }
+    case z.ZodFirstPartyTypeKind.ZodNumber: {
+      const result: JsonSchema = { type: "number" }
+      for (const check of (schema as z.ZodNumber)._def.checks) {
+        if (check.kind === "int") result.type = "integer"
+        else if (check.kind === "min") result[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value
+        else if (check.kind === "max") result[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value
+      }
+      return result
+    }
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: "boolean" }
+    case z.ZodFirstPartyTypeKind.ZodNull:
+      return { type: "null" }
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return { const: def.value }
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return { type: "string", enum: def.values }
+    case z.ZodFirstPartyTypeKind.ZodArray: {
+      const result: JsonSchema = { type: "array", items: toJsonSchema(def.type) }
+      if (def.minLength) result.minItems = def.minLength.value
+      if (def.maxLength) result.maxItems = def.maxLength.value
+      return result
+    }
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (schema as z.AnyZodObject).shape as Record<string, z.ZodTypeAny>
+      const required = Object.entries(shape)
+        .filter(([, value]) => !value.isOptional())
+        .map(([key]) => key)
+      return {
+        type: "object",
+        properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, toJsonSchema(value)])),
+        ...(required.length > 0 && { required }),
+      }
+    }
+    case z.ZodFirstPartyTypeKind.ZodRecord:
+      return { type: "object", additionalProperties: toJsonSchema(def.valueType) }
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+      return { anyOf: (def.options as z.ZodTypeAny[]).map(toJsonSchema) }
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      return toJsonSchema(def.innerType)
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return { anyOf: [toJsonSchema(def.innerType), { type: "null" }] }
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return { ...toJsonSchema(def.innerType), default: def.defaultValue() }
+    case z.ZodFirstPartyTypeKind.ZodCatch:
+      return toJsonSchema(def.innerType)
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      // Preprocessing, refinements and transforms: document the schema the value is checked against
+      return toJsonSchema(def.schema)
+    case z.ZodFirstPartyTypeKind.ZodPipeline:
+      return toJsonSchema(def.in)
+    default:
+      return {}
+  }
+}
+
+/**
+ * Converts a zod schema to the JSON Schema subset used by OpenAPI 3.1,
+ * carrying over `.describe()` texts as descriptions.
+ */
+export function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const result = convert(schema)
+  return schema.description ? { ...result, description: schema.description } : result
+}
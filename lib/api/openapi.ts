@@ -0,0 +1,188 @@
+import { WEBHOOK_SIGNATURE_HEADER } from "@/lib/jobs/webhooks"
+import { MAX_PAGES } from "@/lib/uploads"
+import { toJsonSchema } from "./json-schema"
+import {
+  apiAnalysisSchema,
+  apiErrorSchema,
+  apiJobSchema,
+  createAnalysisRequestSchema,
+  createJobRequestSchema,
+  jobWebhookPayloadSchema,
+} from "./schemas"
+
+export const API_VERSION = "1.0.0"
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+  400: "The request or one of the files is invalid (`invalid_request`, `invalid_upload`)",
+  401: "The API key is missing or wrong (`unauthorized`)",
+  404: "The API is not enabled on this server (`api_disabled`), or the analysis or job does not exist (`not_found`)",
+  415: "The body is neither multipart/form-data nor JSON (`invalid_request`)",
+  422: "The document could not be read (`unreadable_document`)",
+  429: "The model provider is rate limiting requests (`rate_limited`)",
+  500: "The analysis failed (`analysis_failed`)",
+  502: "The model returned an incomplete analysis; `fieldErrors` lists what was wrong (`invalid_analysis`)",
+  503: "The model is temporarily unavailable (`model_unavailable`), or too many jobs are waiting (`queue_full`)",
+}
+
+const errorResponses = (statuses: number[]) =>
+  Object.fromEntries(
+    statuses.map((status) => [
+      String(status),
+      {
+        description: ERROR_DESCRIPTIONS[status],
+        content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+      },
+    ]),
+  )
+
+const jsonResponse = (schema: string, description: string, headers?: Record<string, unknown>) => ({
+  description,
+  ...(headers && { headers }),
+  content: { "application/json": { schema: { $ref: `#/components/schemas/${schema}` } } },
+})
+
+const locationHeader = (description: string) => ({ Location: { description, schema: { type: "string" } } })
+
+/** The multipart variant of a request body: the files as binary parts, the other fields as strings */
+function multipartBody(extraFields: Record<string, unknown> = {}) {
+  const { name, state } = createAnalysisRequestSchema.shape
+  return {
+    type: "object",
+    properties: {
+      files: {
+        type: "array",
+        items: { type: "string", format: "binary" },
+        maxItems: MAX_PAGES,
+        description: "The contract pages, in order",
+      },
+      name: toJsonSchema(name),
+      state: toJsonSchema(state),
+      reanalyze: { type: "string", enum: ["true", "false"] },
+      ...extraFields,
+    },
+    required: ["files"],
+  }
+}
+
+/** The OpenAPI 3.1 description of the public API and its webhook, with the bodies generated from the zod schemas */
+export function buildOpenApiDocument() {
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "AutoTruth API",
+      version: API_VERSION,
+      description:
+        "Analyze car purchase and lease contracts. Authenticate with an API key sent as a Bearer token or in the X-API-Key header.",
+    },
+    security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+    paths: {
+      "/api/v1/analyses": {
+        post: {
+          operationId: "createAnalysis",
+          summary: "Analyze a contract",
+          description: `Upload up to ${MAX_PAGES} pages (PDF or images) as multipart/form-data, or send them as JSON with base64 data or public URLs. Responds once the analysis is finished.`,
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": { schema: { $ref: "#/components/schemas/CreateAnalysisRequest" } },
+              "multipart/form-data": { schema: multipartBody() },
+            },
+          },
+          responses: {
+            "201": jsonResponse("Analysis", "The finished analysis", locationHeader("URL of the stored analysis")),
+            ...errorResponses([400, 401, 404, 415, 422, 429, 500, 502, 503]),
+          },
+        },
+      },
+      "/api/v1/analyses/{id}": {
+        get: {
+          operationId: "getAnalysis",
+          summary: "Fetch a stored analysis",
+          description:
+            "Analyses are kept as long as finished jobs can be polled (24 hours by default), within the server's storage limit. After that this responds 404.",
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          responses: {
+            "200": jsonResponse("Analysis", "The analysis"),
+            ...errorResponses([401, 404]),
+          },
+        },
+      },
+      "/api/v1/jobs": {
+        post: {
+          operationId: "createJob",
+          summary: "Queue a contract analysis",
+          description:
+            "Takes the same body as `createAnalysis` plus an optional `webhookUrl`, and responds right away. Poll `getJob` until the status is `succeeded` or `failed`, or wait for the webhook.",
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": { schema: { $ref: "#/components/schemas/CreateJobRequest" } },
+              "multipart/form-data": {
+                schema: multipartBody({ webhookUrl: toJsonSchema(createJobRequestSchema.shape.webhookUrl) }),
+              },
+            },
+          },
+          responses: {
+            "202": jsonResponse("Job", "The queued job", locationHeader("URL to poll for the job status")),
+            ...errorResponses([400, 401, 404, 415, 503]),
+          },
+        },
+      },
+      "/api/v1/jobs/{id}": {
+        get: {
+          operationId: "getJob",
+          summary: "Fetch the status of a job",
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          responses: {
+            "200": jsonResponse("Job", "The job; failed jobs carry the error in the same shape as error responses", {
+              "Retry-After": {
+                description: "Seconds to wait before polling again, while the job is queued or running",
+                schema: { type: "integer" },
+              },
+            }),
+            ...errorResponses([401, 404]),
+          },
+        },
+      },
+    },
+    webhooks: {
+      jobFinished: {
+        post: {
+          summary: "Sent to a job's `webhookUrl` when it succeeds or fails",
+          description: `Signed with the server's webhook secret: the \`${WEBHOOK_SIGNATURE_HEADER}\` header is \`t=<unix seconds>,v1=<hex>\`, where the hex is the HMAC-SHA256 of \`<t>.<raw body>\`. Failed deliveries are retried with exponential backoff; every attempt carries the same \`X-AutoTruth-Delivery\` id.`,
+          parameters: [
+            { name: WEBHOOK_SIGNATURE_HEADER, in: "header", required: true, schema: { type: "string" } },
+            {
+              name: "X-AutoTruth-Event",
+              in: "header",
+              required: true,
+              schema: { type: "string", enum: ["job.succeeded", "job.failed"] },
+            },
+            { name: "X-AutoTruth-Delivery", in: "header", required: true, schema: { type: "string" } },
+          ],
+          requestBody: {
+            required: true,
+            content: { "application/json": { schema: { $ref: "#/components/schemas/JobWebhookPayload" } } },
+          },
+          responses: {
+            "2XX": { description: "Accepted; any other status is retried if it is 408, 429 or 5XX" },
+          },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer" },
+        apiKeyHeader: { type: "apiKey", in: "header", name: "X-API-Key" },
+      },
+      schemas: {
+        CreateAnalysisRequest: toJsonSchema(createAnalysisRequestSchema),
+        Analysis: toJsonSchema(apiAnalysisSchema),
+        CreateJobRequest: toJsonSchema(createJobRequestSchema),
+        Job: toJsonSchema(apiJobSchema),
+        JobWebhookPayload: toJsonSchema(jobWebhookPayloadSchema),
+        Error: toJsonSchema(apiErrorSchema),
+      },
+    },
+  }
+}
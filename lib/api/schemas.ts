@@ -0,0 +1,121 @@
+import { z } from "zod"
+import type { AnalysisMeta } from "@/lib/analysis-pipeline"
+import { ANALYSIS_STAGES, type AnalysisStage } from "@/lib/analysis-progress"
+import { analysisResultsSchema } from "@/lib/analysis-schema"
+import type { AnalysisJob } from "@/lib/jobs/types"
+import { MAX_PAGES } from "@/lib/uploads"
+import { API_ERROR_CODES } from "./errors"
+
+const fileNameSchema = z.string().trim().min(1).max(200).describe("File name, used to name the analysis")
+
+const mimeTypeSchema = z
+  .string()
+  .regex(/^[\w.+-]+\/[\w.+-]+$/)
+  .describe("`application/pdf` or an image type such as `image/jpeg`")
+
+export const base64FileSchema = z.object({
+  name: fileNameSchema.optional(),
+  mimeType: mimeTypeSchema,
+  data: z.string().min(1).describe("The file contents, base64 encoded"),
+})
+
+export const urlFileSchema = z.object({
+  name: fileNameSchema.optional(),
+  mimeType: mimeTypeSchema.optional().describe("Overrides the Content-Type the URL responds with"),
+  url: z.string().url().describe("Public http(s) URL the server downloads the file from"),
+})
+
+export const stateCodeSchema = z
+  .string()
+  .regex(/^[A-Za-z]{2}$/)
+  .describe("Two-letter code of the state whose fee rules apply")
+
+/** JSON body of `POST /api/v1/analyses`; multipart uploads use the same field names */
+export const createAnalysisRequestSchema = z.object({
+  name: z.string().trim().min(1).max(200).optional().describe("Defaults to the first file name"),
+  files: z
+    .array(z.union([base64FileSchema, urlFileSchema]))
+    .min(1)
+    .max(MAX_PAGES)
+    .describe("The contract pages, in order"),
+  state: stateCodeSchema.nullable().optional(),
+  reanalyze: z.boolean().optional().describe("Skip the cache and call the model again"),
+})
+
+export type CreateAnalysisRequest = z.infer<typeof createAnalysisRequestSchema>
+
+/** Body of `POST /api/v1/jobs`: an analysis request plus an optional webhook */
+export const createJobRequestSchema = createAnalysisRequestSchema.extend({
+  webhookUrl: z.string().url().optional().describe("Public http(s) URL that receives a signed POST when the job finishes"),
+})
+
+export type CreateJobRequest = z.infer<typeof createJobRequestSchema>
+
+const pageSourceSchema = z.object({
+  page: z.number().int().min(1),
+  method: z.enum(["text", "vision"]),
+  file: z.number().int().min(0),
+  filePage: z.number().int().min(1),
+})
+
+export const analysisMetaSchema: z.ZodType<AnalysisMeta> = z.object({
+  provider: z.string(),
+  model: z.string(),
+  attempts: z.number().int().describe("Number of model calls it took to get a valid analysis"),
+  pages: z.array(pageSourceSchema).optional().describe("How each page was sent to the model"),
+  cached: z.boolean().optional().describe("True when the analysis was served from the cache"),
+})
+
+/** An analysis as the API returns it */
+export const apiAnalysisSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  createdAt: z.string().datetime(),
+  state: z.string().nullable(),
+  results: analysisResultsSchema,
+  meta: analysisMetaSchema.nullable(),
+})
+
+export type ApiAnalysis = z.infer<typeof apiAnalysisSchema>
+
+export const apiErrorSchema = z.object({
+  code: z.enum(API_ERROR_CODES).describe("Stable machine-readable error code"),
+  error: z.string().describe("Message safe to show to the user"),
+  fieldErrors: z
+    .array(z.object({ path: z.string(), message: z.string() }))
+    .optional()
+    .describe("Invalid fields of the request body or of the model response"),
+})
+
+export const apiJobSchema: z.ZodType<AnalysisJob> = z.object({
+  id: z.string(),
+  status: z.enum(["queued", "running", "succeeded", "failed"]),
+  name: z.string(),
+  state: z.string().nullable(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+  startedAt: z.string().datetime().nullable(),
+  finishedAt: z.string().datetime().nullable(),
+  stage: z
+    .enum(ANALYSIS_STAGES.map((stage) => stage.id) as [AnalysisStage, ...AnalysisStage[]])
+    .nullable()
+    .describe("Last progress stage reported while running"),
+  analysisId: z.string().nullable().describe("Set once the job succeeded; fetch it from `/api/v1/analyses/{id}`"),
+  error: apiErrorSchema.nullable().describe("Set once the job failed"),
+  webhook: z
+    .object({
+      url: z.string().url(),
+      status: z.enum(["pending", "delivered", "failed"]),
+      attempts: z.number().int().min(0),
+    })
+    .nullable(),
+})
+
+/** Body of the webhook POSTed when a job finishes */
+export const jobWebhookPayloadSchema = z.object({
+  event: z.enum(["job.succeeded", "job.failed"]),
+  job: apiJobSchema,
+  analysis: apiAnalysisSchema.nullable().describe("The finished analysis, when the job succeeded"),
+})
+
+export type JobWebhookPayload = z.infer<typeof jobWebhookPayloadSchema>
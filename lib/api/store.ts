@@ -0,0 +1,84 @@
+import { randomUUID } from "node:crypto"
+import os from "node:os"
+import path from "node:path"
+import type { GeneratedAnalysis } from "@/lib/analysis-pipeline"
+import type { HistoryStore, SavedAnalysis } from "@/lib/history"
+import { createFileHistoryStore } from "@/lib/history/file"
+import { createMemoryHistoryStore } from "@/lib/history/memory"
+import { DEFAULT_JOB_RETENTION_MS } from "@/lib/jobs/memory"
+import type { AnalysisInput } from "./input"
+import type { ApiAnalysis } from "./schemas"
+
+let cachedInstance: HistoryStore | undefined
+
+/** Owner the API's analyses are stored under, apart from any browser's */
+const API_OWNER = "api"
+
+/** Analyses the memory backend keeps; all API clients share them, unlike a browser's history */
+const MAX_MEMORY_ANALYSES = 10_000
+
+/**
+ * Builds the store for analyses created through the API, selected by
+ * `API_ANALYSIS_STORE` (memory or file, defaulting to memory). It reuses the
+ * history backends but is kept apart from the browser history. The memory
+ * backend keeps analyses as long as finished jobs, so a job's `analysisId`
+ * can be fetched while the job can. The file backend writes to
+ * `API_ANALYSIS_STORE_DIR`, or a directory under the OS temp dir.
+ */
+export function createApiAnalysisStoreFromEnv(env: NodeJS.ProcessEnv = process.env): HistoryStore {
+  const backend = (env.API_ANALYSIS_STORE || "memory").toLowerCase()
+
+  switch (backend) {
+    case "memory":
+      return createMemoryHistoryStore({
+        maxEntries: MAX_MEMORY_ANALYSES,
+        maxEntriesPerOwner: MAX_MEMORY_ANALYSES,
+        retentionMs: DEFAULT_JOB_RETENTION_MS,
+      })
+    case "file":
+      return createFileHistoryStore({
+        directory: env.API_ANALYSIS_STORE_DIR || path.join(os.tmpdir(), "autotruth-api-analyses"),
+      })
+    default:
+      throw new Error(`Unknown API analysis store backend "${backend}"`)
+  }
+}
+
+export function getApiAnalysisStore(): HistoryStore {
+  if (cachedInstance === undefined) {
+    cachedInstance = createApiAnalysisStoreFromEnv()
+  }
+  return cachedInstance
+}
+
+const toApiAnalysis = ({ id, name, createdAt, state, results, meta }: SavedAnalysis): ApiAnalysis => ({
+  id,
+  name,
+  createdAt,
+  state,
+  results,
+  meta,
+})
+
+export async function getApiAnalysis(id: string) {
+  const saved = await getApiAnalysisStore().get(API_OWNER, id)
+  return saved && toApiAnalysis(saved)
+}
+
+/** Stores a finished analysis under a new id and returns it as the API shows it */
+export async function storeApiAnalysis(input: AnalysisInput, { data, meta }: GeneratedAnalysis): Promise<ApiAnalysis> {
+  const now = new Date().toISOString()
+  const saved: SavedAnalysis = {
+    id: randomUUID(),
+    name: input.name,
+    createdAt: now,
+    updatedAt: now,
+    results: data,
+    meta,
+    state: input.state,
+    redacted: false,
+    thumbnail: null,
+  }
+  await getApiAnalysisStore().put(API_OWNER, saved)
+  return toApiAnalysis(saved)
+}
@@ -0,0 +1,26 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises"
+import path from "node:path"
+import { logError } from "@/lib/log"
+import type { AnalysisCache, CachedAnalysis } from "./types"
+
+/** Stores each analysis as a JSON file named after its cache key */
+export function createFileCache(options: { directory: string }): AnalysisCache {
+  const fileFor = (key: string) => path.join(options.directory, `${key}.json`)
+
+  return {
+    async get(key) {
+      try {
+        return JSON.parse(await readFile(fileFor(key), "utf8")) as CachedAnalysis
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          logError("Error reading cached analysis:", error)
+        }
+        return null
+      }
+    },
+    async set(key, value) {
+      await mkdir(options.directory, { recursive: true })
+      await writeFile(fileFor(key), JSON.stringify(value))
+    },
+  }
+}
@@ -0,0 +1,55 @@
+import { createHash } from "node:crypto"
+import os from "node:os"
+import path from "node:path"
+import type { ContractAnalysisProvider } from "@/lib/providers"
+import type { UploadedFile } from "@/lib/uploads"
+import { createFileCache } from "./file"
+import { createMemoryCache } from "./memory"
+import type { AnalysisCache, CacheBackend } from "./types"
+
+export type { AnalysisCache, CacheBackend, CachedAnalysis } from "./types"
+
+let cachedInstance: AnalysisCache | null | undefined
+
+/**
+ * Hashes the uploaded bytes together with everything else that changes the
+ * model output: the prompt version and the provider and model ids.
+ */
+export function analysisCacheKey(files: UploadedFile[], provider: ContractAnalysisProvider, promptVersion: string) {
+  const hash = createHash("sha256")
+  hash.update(`${promptVersion}\0${provider.id}\0${provider.model}\0`)
+  for (const file of files) {
+    hash.update(`${file.mimeType}\0${file.bytes.byteLength}\0`)
+    hash.update(file.bytes)
+  }
+  return hash.digest("hex")
+}
+
+/**
+ * Builds the cache selected by `ANALYSIS_CACHE` (memory, file or off,
+ * defaulting to memory). The file backend writes to `ANALYSIS_CACHE_DIR`,
+ * or a directory under the OS temp dir.
+ */
+export function createCacheFromEnv(env: NodeJS.ProcessEnv = process.env): AnalysisCache | null {
+  const backend = (env.ANALYSIS_CACHE || "memory").toLowerCase() as CacheBackend
+
+  switch (backend) {
+    case "memory":
+      return createMemoryCache()
+    case "file":
+      return createFileCache({
+        directory: env.ANALYSIS_CACHE_DIR || path.join(os.tmpdir(), "autotruth-analysis-cache"),
+      })
+    case "off":
+      return null
+    default:
+      throw new Error(`Unknown analysis cache backend "${backend}"`)
+  }
+}
+
+export function getAnalysisCache(): AnalysisCache | null {
+  if (cachedInstance === undefined) {
+    cachedInstance = createCacheFromEnv()
+  }
+  return cachedInstance
+}
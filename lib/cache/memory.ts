@@ -0,0 +1,21 @@
+import type { AnalysisCache, CachedAnalysis } from "./types"
+
+/** Keeps the most recently stored analyses in process memory */
+export function createMemoryCache(options: { maxEntries?: number } = {}): AnalysisCache {
+  const maxEntries = options.maxEntries ?? 100
+  const entries = new Map<string, CachedAnalysis>()
+
+  return {
+    async get(key) {
+      return entries.get(key) ?? null
+    },
+    async set(key, value) {
+      entries.delete(key)
+      entries.set(key, value)
+      // Maps iterate in insertion order, so the first key is the oldest
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string)
+      }
+    },
+  }
+}
@@ -0,0 +1,16 @@
+import type { AnalysisMeta } from "@/lib/analysis-pipeline"
+import type { AnalysisResults } from "@/lib/analysis-schema"
+
+export interface CachedAnalysis {
+  /** Model output before the deterministic checks, which depend on per-request options */
+  data: AnalysisResults
+  meta: AnalysisMeta
+  createdAt: string
+}
+
+export interface AnalysisCache {
+  get(key: string): Promise<CachedAnalysis | null>
+  set(key: string, value: CachedAnalysis): Promise<void>
+}
+
+export type CacheBackend = "memory" | "file" | "off"
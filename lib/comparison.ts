@@ -0,0 +1,141 @@
+import type { AnalysisResults } from "@/lib/analysis-schema"
+import { roundCents, verifyLoan } from "@/lib/finance"
+import { moneyFactorToApr } from "@/lib/lease"
+import { addOnTotal, priceOf } from "@/lib/scoring"
+
+/** An analyzed contract or dealer offer added to the comparison */
+export interface ComparedContract {
+  id: string
+  name: string
+  results: AnalysisResults
+}
+
+export type ComparisonFormat = "currency" | "percent" | "months"
+
+export interface ComparisonRow {
+  id: string
+  label: string
+  format: ComparisonFormat
+  /** One value per compared contract, null where it was not found */
+  values: (number | null)[]
+  /** Indexes of the contracts with the best value; empty when there is nothing to pick between */
+  best: number[]
+}
+
+export interface Comparison {
+  rows: ComparisonRow[]
+  totalCost: ComparisonRow
+  /** Index of the contract that costs least over its life, or null when fewer than two totals are known */
+  winner: number | null
+  /** How much less the winner costs than the next cheapest contract */
+  savings: number | null
+}
+
+const sumOrNull = (values: (number | null | undefined)[]) => {
+  const known = values.filter((value): value is number => value != null)
+  return known.length > 0 ? roundCents(known.reduce((total, value) => total + value, 0)) : null
+}
+
+function aprOf(results: AnalysisResults) {
+  if (results.contractType === "lease") {
+    const moneyFactor = results.lease?.moneyFactor
+    return moneyFactor != null ? moneyFactorToApr(moneyFactor) : null
+  }
+  return results.financials?.apr ?? results.tilaDisclosure?.apr ?? null
+}
+
+const termOf = (results: AnalysisResults) =>
+  (results.contractType === "lease" ? results.lease?.termMonths : results.financials?.termMonths) ?? null
+
+const monthlyOf = (results: AnalysisResults) =>
+  (results.contractType === "lease" ? results.lease?.monthlyPayment : results.financials?.monthlyPayment) ?? null
+
+/** Dealer and government fees: documentation, tax, title and registration, and lease acquisition and disposition */
+const feesOf = (results: AnalysisResults) =>
+  sumOrNull([
+    results.fees?.documentationFee,
+    results.fees?.salesTax,
+    results.fees?.titleAndRegistration,
+    results.lease?.acquisitionFee,
+    results.lease?.dispositionFee,
+  ])
+
+/**
+ * Everything paid over the life of the contract. For a loan that is the money
+ * down, the trade-in and every payment; for a lease it is the money down,
+ * every payment and the disposition fee, without buying the car at the end.
+ */
+export function totalCostOf(results: AnalysisResults): number | null {
+  if (results.contractType === "lease") {
+    const lease = results.lease
+    if (lease?.monthlyPayment == null || !lease.termMonths) return null
+    return roundCents(
+      lease.monthlyPayment * lease.termMonths + (lease.capCostReduction ?? 0) + (lease.dispositionFee ?? 0),
+    )
+  }
+
+  const financials = results.financials
+  const payments = (financials && verifyLoan(financials)?.totalOfPayments) ?? results.tilaDisclosure?.totalOfPayments
+  if (payments == null) return results.tilaDisclosure?.totalSalePrice ?? null
+  return roundCents(payments + (financials?.downPayment ?? 0) + (financials?.tradeInValue ?? 0))
+}
+
+/** Lower is better for every compared figure except the term, where neither direction is better on its own */
+function bestIndexes(values: (number | null)[], lowerIsBetter: boolean) {
+  if (!lowerIsBetter) return []
+  const known = values.filter((value): value is number => value != null)
+  if (known.length < 2 || known.every((value) => value === known[0])) return []
+
+  const best = Math.min(...known)
+  return values.flatMap((value, index) => (value === best ? [index] : []))
+}
+
+interface RowDefinition {
+  id: string
+  label: string
+  format: ComparisonFormat
+  lowerIsBetter: boolean
+  value: (results: AnalysisResults) => number | null
+}
+
+const ROWS: RowDefinition[] = [
+  { id: "price", label: "Price", format: "currency", lowerIsBetter: true, value: (results) => priceOf(results) ?? null },
+  { id: "apr", label: "APR", format: "percent", lowerIsBetter: true, value: aprOf },
+  { id: "term", label: "Term", format: "months", lowerIsBetter: false, value: termOf },
+  { id: "monthly", label: "Monthly payment", format: "currency", lowerIsBetter: true, value: monthlyOf },
+  { id: "fees", label: "Fees", format: "currency", lowerIsBetter: true, value: feesOf },
+  {
+    id: "add-ons",
+    label: "Add-ons",
+    format: "currency",
+    lowerIsBetter: true,
+    value: (results) => roundCents(addOnTotal(results)),
+  },
+]
+
+/** Lines up the contracts figure by figure and picks the one with the lowest total cost */
+export function compareContracts(contracts: ComparedContract[]): Comparison {
+  const rows = ROWS.map(({ id, label, format, lowerIsBetter, value }) => {
+    const values = contracts.map((contract) => value(contract.results))
+    return { id, label, format, values, best: bestIndexes(values, lowerIsBetter) }
+  })
+
+  const totals = contracts.map((contract) => totalCostOf(contract.results))
+  const totalCost = {
+    id: "total-cost",
+    label: "Total cost over the life of the contract",
+    format: "currency" as const,
+    values: totals,
+    best: bestIndexes(totals, true),
+  }
+
+  const known = totals.filter((value): value is number => value != null).sort((a, b) => a - b)
+  const winner = known.length >= 2 ? totals.indexOf(known[0]) : null
+
+  return {
+    rows,
+    totalCost,
+    winner,
+    savings: winner !== null ? roundCents(known[1] - known[0]) : null,
+  }
+}
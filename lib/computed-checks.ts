@@ -0,0 +1,33 @@
+import type { AnalysisResults } from "@/lib/analysis-schema"
+import { loanVerificationIssues } from "@/lib/finance"
+import { leaseVerificationIssues } from "@/lib/lease"
+import { evaluateStateRules } from "@/lib/rules"
+import { scoreContract } from "@/lib/scoring"
+import { tilaDisclosureIssues } from "@/lib/tila"
+
+export interface ComputedCheckOptions {
+  /** Two-letter code of the state whose fee rules apply */
+  state?: string | null
+}
+
+/**
+ * Replaces any previously computed and rule-based issues with a fresh set from
+ * the deterministic checks and re-scores the contract with the rubric, so it
+ * is safe to run more than once, e.g. after the user corrects a figure.
+ */
+export function applyComputedChecks(results: AnalysisResults, options: ComputedCheckOptions = {}): AnalysisResults {
+  const computedIssues = [
+    ...(results.tilaDisclosure ? tilaDisclosureIssues(results.tilaDisclosure, results.financials) : []),
+    ...(results.financials ? loanVerificationIssues(results.financials) : []),
+    ...(results.contractType === "lease" && results.lease ? leaseVerificationIssues(results.lease) : []),
+    ...(options.state ? evaluateStateRules(results, options.state) : []),
+  ]
+
+  const checked = {
+    ...results,
+    potentialIssues: [...results.potentialIssues.filter((issue) => issue.source === "model"), ...computedIssues],
+    modelScore: results.modelScore ?? results.trustworthinessScore,
+  }
+
+  return { ...checked, trustworthinessScore: scoreContract(checked).total }
+}
@@ -0,0 +1,88 @@
+import { PDFDocument } from "pdf-lib"
+import { extractText, getDocumentProxy } from "unpdf"
+import { logError } from "@/lib/log"
+import type { DocumentPart } from "@/lib/providers"
+import type { UploadedFile } from "@/lib/uploads"
+
+/** Pages with fewer non-whitespace characters than this are treated as scanned */
+const MIN_TEXT_LAYER_CHARS = 100
+
+export interface PageSource {
+  /** 1-based page number across all uploaded files */
+  page: number
+  /** "text" when the PDF text layer was sent, "vision" when the page image was */
+  method: "text" | "vision"
+  /** 0-based index of the uploaded file the page belongs to */
+  file: number
+  /** 1-based page number within that file */
+  filePage: number
+}
+
+export interface PreparedDocument {
+  parts: DocumentPart[]
+  pages: PageSource[]
+}
+
+const toBase64 = (bytes: Uint8Array) => Buffer.from(bytes).toString("base64")
+
+async function extractPdfPageTexts(bytes: Uint8Array): Promise<string[] | null> {
+  try {
+    // pdf.js may detach the buffer it is given, so hand it a copy
+    const pdf = await getDocumentProxy(new Uint8Array(bytes))
+    const { text } = await extractText(pdf, { mergePages: false })
+    return text
+  } catch (error) {
+    logError("Could not read the PDF text layer, sending the file as images:", error)
+    return null
+  }
+}
+
+async function extractSinglePage(source: PDFDocument, pageIndex: number) {
+  const single = await PDFDocument.create()
+  const [page] = await single.copyPages(source, [pageIndex])
+  single.addPage(page)
+  return single.save()
+}
+
+const hasTextLayer = (text: string) => text.replace(/\s/g, "").length >= MIN_TEXT_LAYER_CHARS
+
+/**
+ * Turns uploaded files into provider parts in page order. Digitally generated
+ * PDF pages are sent as their extracted text; scanned PDF pages and images are
+ * sent to the model's vision input.
+ */
+export async function prepareDocument(files: UploadedFile[]): Promise<PreparedDocument> {
+  const parts: DocumentPart[] = []
+  const pages: PageSource[] = []
+
+  for (const [fileIndex, file] of files.entries()) {
+    const pageTexts = file.mimeType === "application/pdf" ? await extractPdfPageTexts(file.bytes) : null
+
+    // Images, unreadable PDFs and fully scanned PDFs go to the model as-is
+    if (!pageTexts || !pageTexts.some(hasTextLayer)) {
+      parts.push({ type: "file", data: toBase64(file.bytes), mimeType: file.mimeType })
+      const pageCount = pageTexts?.length || 1
+      for (let i = 0; i < pageCount; i++) {
+        pages.push({ page: pages.length + 1, method: "vision", file: fileIndex, filePage: i + 1 })
+      }
+      continue
+    }
+
+    const scannedPages = pageTexts.some((text) => !hasTextLayer(text)) ? await PDFDocument.load(file.bytes) : null
+
+    for (const [index, text] of pageTexts.entries()) {
+      const page = pages.length + 1
+
+      if (hasTextLayer(text) || !scannedPages) {
+        parts.push({ type: "text", text: `Page ${page} (text extracted from the PDF):\n${text.trim()}` })
+        pages.push({ page, method: "text", file: fileIndex, filePage: index + 1 })
+      } else {
+        const single = await extractSinglePage(scannedPages, index)
+        parts.push({ type: "file", data: toBase64(single), mimeType: "application/pdf" })
+        pages.push({ page, method: "vision", file: fileIndex, filePage: index + 1 })
+      }
+    }
+  }
+
+  return { parts, pages }
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest"
+import { analysisResultsSchema, type AnalysisResults } from "@/lib/analysis-schema"
+import retail from "@/lib/providers/fixtures/retail-installment.json"
+import { EXPORT_SCHEMA_VERSION, renderExport, toCsvExport, toJsonExport } from "./exports"
+
+const results = analysisResultsSchema.parse(retail)
+
+const withTermValue = (value: string): AnalysisResults => ({
+  ...results,
+  contractTerms: [{ term: "Price", value, flag: "normal" }],
+  potentialIssues: [],
+})
+
+/** The value cell of the only term row */
+function valueCell(value: string) {
+  const row = toCsvExport({ name: "Contract", results: withTermValue(value) }).split("\n")[1]
+  const prefix = `${EXPORT_SCHEMA_VERSION},term,Price,`
+  const suffix = ",normal,,,,false,"
+  expect(row.startsWith(prefix) && row.endsWith(suffix)).toBe(true)
+  return row.slice(prefix.length, -suffix.length)
+}
+
+describe("toCsvExport", () => {
+  it("writes a header and a row per term and issue", () => {
+    const lines = toCsvExport({ name: "Contract", results }).trimEnd().split("\n")
+    expect(lines[0]).toBe(
+      "schema_version,record_type,name,value,rating,source,details,recommendation,user_edited,original_value",
+    )
+    expect(lines).toHaveLength(1 + results.contractTerms.length + results.potentialIssues.length)
+  })
+
+  it("quotes cells with commas, quotes and line breaks", () => {
+    expect(valueCell('$1,000 "firm"')).toBe('"$1,000 ""firm"""')
+  })
+
+  it.each([
+    ['=HYPERLINK("http://evil.example","Click")', `"'=HYPERLINK(""http://evil.example"",""Click"")"`],
+    ["+1+2", "'+1+2"],
+    ["-2+3", "'-2+3"],
+    ["@SUM(A1:A2)", "'@SUM(A1:A2)"],
+    ["\t=1+1", "'\t=1+1"],
+    ["\r=1+1", `"'\r=1+1"`],
+  ])("keeps %j from running as a formula", (value, cell) => {
+    expect(valueCell(value)).toBe(cell)
+  })
+
+  it("leaves ordinary values as they are", () => {
+    expect(valueCell("$28,894.00")).toBe('"$28,894.00"')
+    expect(valueCell("9.9%")).toBe("9.9%")
+  })
+})
+
+describe("toJsonExport", () => {
+  it("includes the format version and the score breakdown", () => {
+    const exported = JSON.parse(toJsonExport({ name: "Contract", results, exportedAt: new Date(0) }))
+    expect(exported).toMatchObject({ schemaVersion: EXPORT_SCHEMA_VERSION, exportedAt: "1970-01-01T00:00:00.000Z" })
+    expect(exported.scoreBreakdown).toHaveLength(5)
+  })
+})
+
+describe("renderExport", () => {
+  it.each([
+    ["json", "application/json"],
+    ["csv", "text/csv"],
+    ["markdown", "text/markdown"],
+  ] as const)("renders %s as %s", (format, contentType) => {
+    expect(renderExport(format, { name: "Contract", results }).contentType).toBe(contentType)
+  })
+})
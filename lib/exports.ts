@@ -0,0 +1,169 @@
+import { z } from "zod"
+import type { AnalysisMeta } from "@/lib/analysis-pipeline"
+import { analysisResultsSchema, type AnalysisResults } from "@/lib/analysis-schema"
+import { scoreContract } from "@/lib/scoring"
+
+/**
+ * Version of the export formats. Bump it whenever a field is renamed or
+ * removed, or a CSV column changes, so downstream consumers can tell.
+ */
+export const EXPORT_SCHEMA_VERSION = "1.0"
+
+export const exportFormatSchema = z.enum(["json", "csv", "markdown"])
+
+export type ExportFormat = z.infer<typeof exportFormatSchema>
+
+/** Body of the export and report endpoints: an analysis as the results card holds it */
+export const exportRequestSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  results: analysisResultsSchema,
+  meta: z.custom<AnalysisMeta>((value) => typeof value === "object").nullable().optional(),
+})
+
+export interface ExportInput {
+  name: string
+  results: AnalysisResults
+  meta?: AnalysisMeta | null
+  exportedAt?: Date
+}
+
+export interface RenderedExport {
+  body: string
+  contentType: string
+  extension: string
+}
+
+const CSV_COLUMNS = [
+  "schema_version",
+  "record_type",
+  "name",
+  "value",
+  "rating",
+  "source",
+  "details",
+  "recommendation",
+  "user_edited",
+  "original_value",
+] as const
+
+/** Spreadsheets run cells starting with these as formulas, so text that does gets a leading quote */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+function csvCell(value: string | number | boolean | null | undefined) {
+  if (value == null) return ""
+  const text = typeof value === "string" && FORMULA_PREFIX.test(value) ? `'${value}` : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/** The full results with the score breakdown and the format version, for programs that read them back */
+export function toJsonExport({ name, results, meta, exportedAt = new Date() }: ExportInput) {
+  const payload = {
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    name,
+    results,
+    scoreBreakdown: scoreContract(results).components.map(({ issues, ...component }) => ({
+      ...component,
+      issues: issues.map((issue) => issue.title),
+    })),
+    meta: meta ?? null,
+  }
+  return `${JSON.stringify(payload, null, 2)}\n`
+}
+
+/** One row per contract term and per issue, with the same columns, for spreadsheets */
+export function toCsvExport({ results }: ExportInput) {
+  const rows: (string | number | boolean | null | undefined)[][] = [
+    ...results.contractTerms.map((term) => [
+      EXPORT_SCHEMA_VERSION,
+      "term",
+      term.term,
+      term.value,
+      term.flag,
+      null,
+      term.details,
+      null,
+      term.userEdited ?? false,
+      term.originalValue,
+    ]),
+    ...results.potentialIssues.map((issue) => [
+      EXPORT_SCHEMA_VERSION,
+      "issue",
+      issue.title,
+      null,
+      issue.severity,
+      issue.source,
+      issue.description,
+      issue.recommendation,
+      null,
+      null,
+    ]),
+  ]
+  return [CSV_COLUMNS.join(","), ...rows.map((row) => row.map(csvCell).join(","))].join("\n") + "\n"
+}
+
+const markdownCell = (value: string) => value.replace(/\|/g, "\\|").replace(/\n/g, " ")
+
+const SEVERITY_LABELS = { high: "High", warning: "Caution", good: "Good", normal: "Normal" }
+
+/** A readable summary for tickets and notes */
+export function toMarkdownExport({ name, results, exportedAt = new Date() }: ExportInput) {
+  const breakdown = scoreContract(results)
+  const lines = [
+    `# ${name}`,
+    "",
+    `**Trustworthiness score:** ${results.trustworthinessScore}/100 · ${results.contractType === "lease" ? "Lease" : "Purchase"}`,
+    "",
+    results.summary,
+    "",
+    "## Score breakdown",
+    "",
+    "| Component | Points | Detail |",
+    "| --- | ---: | --- |",
+    ...breakdown.components.map(
+      (component) =>
+        `| ${component.label} | ${component.points} / ${component.weight} | ${markdownCell(component.detail)} |`,
+    ),
+    "",
+    "## Contract terms",
+    "",
+    "| Term | Value | Rating |",
+    "| --- | --- | --- |",
+    ...results.contractTerms.map(
+      (term) =>
+        `| ${markdownCell(term.term)} | ${markdownCell(term.value)}${term.userEdited ? " (edited)" : ""} | ${SEVERITY_LABELS[term.flag]} |`,
+    ),
+    "",
+    "## Issues",
+    "",
+    ...(results.potentialIssues.length === 0
+      ? ["No issues were found.", ""]
+      : results.potentialIssues.flatMap((issue) => [
+          `### ${SEVERITY_LABELS[issue.severity]}: ${issue.title}`,
+          "",
+          issue.description,
+          "",
+          ...(issue.recommendation ? [`**Recommendation:** ${issue.recommendation}`, ""] : []),
+          ...(issue.citation ? [`_Source: ${issue.citation.label} (rules v${issue.citation.rulesVersion})_`, ""] : []),
+        ])),
+    "---",
+    "",
+    `_Exported ${exportedAt.toISOString()} · AutoTruth export schema v${EXPORT_SCHEMA_VERSION}_`,
+  ]
+  return `${lines.join("\n")}\n`
+}
+
+export function renderExport(format: ExportFormat, input: ExportInput): RenderedExport {
+  switch (format) {
+    case "json":
+      return { body: toJsonExport(input), contentType: "application/json", extension: "json" }
+    case "csv":
+      return { body: toCsvExport(input), contentType: "text/csv", extension: "csv" }
+    case "markdown":
+      return { body: toMarkdownExport(input), contentType: "text/markdown", extension: "md" }
+  }
+}
+
+/** A file name safe for Content-Disposition headers and every OS */
+export const exportFileName = (name: string, suffix: string) =>
+  `${name.replace(/[^\w -]+/g, "").trim().replace(/\s+/g, "-") || "contract"}${suffix}`
@@ -0,0 +1,146 @@
+import type { LoanFinancials, PotentialIssue } from "@/lib/analysis-schema"
+
+/** Differences below this many dollars per month are treated as rounding */
+const PAYMENT_TOLERANCE = 1
+
+/** Hidden amounts above this are reported as high severity */
+const HIGH_SEVERITY_PACKING = 500
+
+export const roundCents = (value: number) => Math.round(value * 100) / 100
+
+export const formatCurrency = (value: number) =>
+  value.toLocaleString("en-US", { style: "currency", currency: "USD" })
+
+/** Level monthly payment that fully amortizes `principal` over `termMonths` */
+export function amortizedPayment(principal: number, aprPercent: number, termMonths: number) {
+  const rate = aprPercent / 100 / 12
+  if (rate === 0) return principal / termMonths
+  return (principal * rate) / (1 - Math.pow(1 + rate, -termMonths))
+}
+
+/** Principal that a given monthly payment pays off over `termMonths` */
+export function principalForPayment(payment: number, aprPercent: number, termMonths: number) {
+  const rate = aprPercent / 100 / 12
+  if (rate === 0) return payment * termMonths
+  return (payment * (1 - Math.pow(1 + rate, -termMonths))) / rate
+}
+
+/** APR (as a percentage) implied by a principal, payment and term, solved by bisection */
+export function impliedApr(principal: number, payment: number, termMonths: number) {
+  if (payment * termMonths <= principal) return 0
+
+  let low = 0
+  let high = 100
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2
+    if (amortizedPayment(principal, mid, termMonths) > payment) {
+      high = mid
+    } else {
+      low = mid
+    }
+  }
+  return (low + high) / 2
+}
+
+export interface LoanVerification {
+  amountFinanced: number
+  expectedPayment: number
+  totalOfPayments: number
+  financeCharge: number
+  /** Stated payment minus the recomputed payment */
+  paymentDifference: number | null
+  /** Extra principal that would explain the stated payment, when it is too high */
+  unexplainedAmount: number | null
+}
+
+/** Amount financed as stated, or purchase price less down payment and trade-in */
+export function resolveAmountFinanced(financials: LoanFinancials) {
+  if (financials.amountFinanced != null) return financials.amountFinanced
+  if (financials.purchasePrice == null) return null
+  return financials.purchasePrice - (financials.downPayment ?? 0) - (financials.tradeInValue ?? 0)
+}
+
+/**
+ * Recomputes the amortized payment, total of payments and finance charge.
+ * Returns null when the contract is missing a figure needed for the math.
+ */
+export function verifyLoan(financials: LoanFinancials): LoanVerification | null {
+  const amountFinanced = resolveAmountFinanced(financials)
+  const { apr, termMonths, monthlyPayment } = financials
+
+  if (amountFinanced == null || amountFinanced <= 0 || apr == null || apr < 0 || !termMonths || termMonths <= 0) {
+    return null
+  }
+
+  const expectedPayment = roundCents(amortizedPayment(amountFinanced, apr, termMonths))
+  const payment = monthlyPayment ?? expectedPayment
+  const totalOfPayments = roundCents(payment * termMonths)
+  const paymentDifference = monthlyPayment != null ? roundCents(monthlyPayment - expectedPayment) : null
+
+  return {
+    amountFinanced: roundCents(amountFinanced),
+    expectedPayment,
+    totalOfPayments,
+    financeCharge: roundCents(totalOfPayments - amountFinanced),
+    paymentDifference,
+    unexplainedAmount:
+      paymentDifference != null && paymentDifference > PAYMENT_TOLERANCE
+        ? roundCents(principalForPayment(payment, apr, termMonths) - amountFinanced)
+        : null,
+  }
+}
+
+/** Turns a loan verification into issues for the Issues tab */
+export function loanVerificationIssues(financials: LoanFinancials): PotentialIssue[] {
+  const verification = verifyLoan(financials)
+  if (!verification) return []
+
+  const { amountFinanced, expectedPayment, financeCharge, paymentDifference, unexplainedAmount } = verification
+  const stated = financials.monthlyPayment
+
+  if (stated == null || paymentDifference == null) {
+    return [
+      {
+        title: "Monthly payment not found",
+        description: `Based on ${formatCurrency(amountFinanced)} financed at ${financials.apr}% for ${financials.termMonths} months, the payment should be about ${formatCurrency(expectedPayment)}, for a finance charge of ${formatCurrency(financeCharge)}.`,
+        severity: "warning",
+        recommendation: "Make sure the contract states the monthly payment and that it matches this amount.",
+        source: "computed",
+      },
+    ]
+  }
+
+  if (unexplainedAmount != null) {
+    return [
+      {
+        title: "Monthly payment is higher than the loan terms explain",
+        description: `The stated payment of ${formatCurrency(stated)} is ${formatCurrency(paymentDifference)} more than the ${formatCurrency(expectedPayment)} needed to repay ${formatCurrency(amountFinanced)} at ${financials.apr}% over ${financials.termMonths} months. That covers roughly ${formatCurrency(unexplainedAmount)} of additional financed charges that are not itemized, a practice known as payment packing.`,
+        severity: unexplainedAmount > HIGH_SEVERITY_PACKING ? "high" : "warning",
+        recommendation:
+          "Ask the dealer for an itemized breakdown of the amount financed and remove any add-ons you did not agree to.",
+        source: "computed",
+      },
+    ]
+  }
+
+  if (paymentDifference < -PAYMENT_TOLERANCE) {
+    return [
+      {
+        title: "Monthly payment is lower than the loan terms require",
+        description: `The stated payment of ${formatCurrency(stated)} will not repay ${formatCurrency(amountFinanced)} at ${financials.apr}% over ${financials.termMonths} months, which needs ${formatCurrency(expectedPayment)}. The contract may include a balloon payment or one of the figures may be misstated.`,
+        severity: "warning",
+        recommendation: "Check the payment schedule for a final balloon payment and confirm the APR and term.",
+        source: "computed",
+      },
+    ]
+  }
+
+  return [
+    {
+      title: "Payment math checks out",
+      description: `The stated payment of ${formatCurrency(stated)} matches ${formatCurrency(amountFinanced)} financed at ${financials.apr}% over ${financials.termMonths} months, for a finance charge of ${formatCurrency(financeCharge)}.`,
+      severity: "good",
+      source: "computed",
+    },
+  ]
+}
@@ -0,0 +1,60 @@
+import type { SavedAnalysis } from "@/lib/history/types"
+
+/** A saved analysis together with the pages that were uploaded, as kept in the browser */
+export interface StoredAnalysis extends SavedAnalysis {
+  /** Empty for analyses that only exist on the server */
+  files: File[]
+}
+
+const DATABASE_NAME = "autotruth"
+const DATABASE_VERSION = 1
+const STORE_NAME = "analyses"
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+function openDatabase() {
+  databasePromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: "id" })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      databasePromise = null
+      reject(request.error ?? new Error("The history database could not be opened"))
+    }
+  })
+  return databasePromise
+}
+
+async function run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>) {
+  const database = await openDatabase()
+  return new Promise<T>((resolve, reject) => {
+    const request = operation(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error ?? new Error("The history database request failed"))
+  })
+}
+
+/** Newest first */
+export async function listStoredAnalyses() {
+  const entries = await run<StoredAnalysis[]>("readonly", (store) => store.getAll())
+  return entries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+}
+
+export async function getStoredAnalysis(id: string) {
+  return (await run<StoredAnalysis | undefined>("readonly", (store) => store.get(id))) ?? null
+}
+
+export async function putStoredAnalysis(analysis: StoredAnalysis) {
+  await run("readwrite", (store) => store.put(analysis))
+}
+
+export async function deleteStoredAnalysis(id: string) {
+  await run("readwrite", (store) => store.delete(id))
+}
+
+/** The analysis without its files, as sent to the server store */
+export function withoutFiles({ files: _files, ...analysis }: StoredAnalysis): SavedAnalysis {
+  return analysis
+}
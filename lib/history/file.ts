@@ -0,0 +1,72 @@
+import { mkdir, readdir, readFile, unlink, writeFile } from "node:fs/promises"
+import path from "node:path"
+import { logError } from "@/lib/log"
+import type { HistoryStore, SavedAnalysis } from "./types"
+
+const isMissing = (error: unknown) => (error as NodeJS.ErrnoException).code === "ENOENT"
+
+const isSafeName = (name: string) => /^[\w-]+$/.test(name)
+
+/** Stores each saved analysis as a JSON file named after its id, in a directory per owner */
+export function createFileHistoryStore(options: { directory: string }): HistoryStore {
+  // Ids come from the request, so anything that could escape the directory is rejected
+  const directoryFor = (owner: string) => (isSafeName(owner) ? path.join(options.directory, owner) : null)
+  const fileFor = (owner: string, id: string) => {
+    const directory = directoryFor(owner)
+    return directory && isSafeName(id) ? path.join(directory, `${id}.json`) : null
+  }
+
+  const read = async (file: string) => {
+    try {
+      return JSON.parse(await readFile(file, "utf8")) as SavedAnalysis
+    } catch (error) {
+      if (!isMissing(error)) {
+        logError("Error reading saved analysis:", error)
+      }
+      return null
+    }
+  }
+
+  return {
+    async list(owner) {
+      const directory = directoryFor(owner)
+      if (!directory) return []
+
+      let names: string[]
+      try {
+        names = await readdir(directory)
+      } catch (error) {
+        if (isMissing(error)) return []
+        throw error
+      }
+
+      const entries = await Promise.all(
+        names.filter((name) => name.endsWith(".json")).map((name) => read(path.join(directory, name))),
+      )
+      return entries
+        .filter((entry): entry is SavedAnalysis => entry !== null)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    },
+    async get(owner, id) {
+      const file = fileFor(owner, id)
+      return file ? read(file) : null
+    },
+    async put(owner, analysis) {
+      const file = fileFor(owner, analysis.id)
+      if (!file) throw new Error(`Invalid analysis id "${analysis.id}"`)
+      await mkdir(path.dirname(file), { recursive: true })
+      await writeFile(file, JSON.stringify(analysis))
+    },
+    async delete(owner, id) {
+      const file = fileFor(owner, id)
+      if (!file) return false
+      try {
+        await unlink(file)
+        return true
+      } catch (error) {
+        if (isMissing(error)) return false
+        throw error
+      }
+    },
+  }
+}
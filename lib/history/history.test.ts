@@ -0,0 +1,113 @@
+import { mkdtemp, rm } from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import type { AnalysisResults } from "@/lib/analysis-schema"
+import retail from "@/lib/providers/fixtures/retail-installment.json"
+import { createFileHistoryStore } from "./file"
+import { createMemoryHistoryStore } from "./memory"
+import type { HistoryStore, SavedAnalysis } from "./types"
+
+const saved = (id: string, name = id): SavedAnalysis => ({
+  id,
+  name,
+  createdAt: "2025-01-01T00:00:00.000Z",
+  updatedAt: "2025-01-01T00:00:00.000Z",
+  results: retail as AnalysisResults,
+  meta: null,
+  state: null,
+  redacted: false,
+  thumbnail: null,
+})
+
+/** The owner scoping every backend must keep */
+function ownerScopingTests(createStore: () => HistoryStore | Promise<HistoryStore>) {
+  it("only shows an owner its own entries", async () => {
+    const store = await createStore()
+    await store.put("alice", saved("one", "Alice's"))
+    await store.put("bob", saved("two", "Bob's"))
+
+    expect((await store.list("alice")).map((entry) => entry.id)).toEqual(["one"])
+    expect(await store.get("bob", "one")).toBeNull()
+    expect((await store.get("alice", "one"))?.name).toBe("Alice's")
+  })
+
+  it("keeps the same id apart for different owners", async () => {
+    const store = await createStore()
+    await store.put("alice", saved("same", "Alice's"))
+    await store.put("bob", saved("same", "Bob's"))
+
+    expect(await store.delete("bob", "same")).toBe(true)
+    expect((await store.get("alice", "same"))?.name).toBe("Alice's")
+  })
+
+  it("does not let one owner delete another's entry", async () => {
+    const store = await createStore()
+    await store.put("alice", saved("one"))
+
+    expect(await store.delete("bob", "one")).toBe(false)
+    expect(await store.get("alice", "one")).not.toBeNull()
+  })
+}
+
+describe("createMemoryHistoryStore", () => {
+  afterEach(() => vi.useRealTimers())
+
+  ownerScopingTests(() => createMemoryHistoryStore())
+
+  it("evicts an owner's least recently saved entries past its limit", async () => {
+    const store = createMemoryHistoryStore({ maxEntriesPerOwner: 2 })
+    await store.put("alice", saved("a"))
+    await store.put("alice", saved("b"))
+    await store.put("alice", saved("a"))
+    await store.put("alice", saved("c"))
+    await store.put("bob", saved("d"))
+
+    expect(await store.get("alice", "b")).toBeNull()
+    expect(await store.get("alice", "a")).not.toBeNull()
+    expect(await store.get("bob", "d")).not.toBeNull()
+  })
+
+  it("evicts across owners past the global limit", async () => {
+    const store = createMemoryHistoryStore({ maxEntries: 2 })
+    await store.put("alice", saved("a"))
+    await store.put("bob", saved("b"))
+    await store.put("carol", saved("c"))
+
+    expect(await store.list("alice")).toEqual([])
+    expect(await store.list("carol")).toHaveLength(1)
+  })
+
+  it("drops entries older than the retention", async () => {
+    vi.useFakeTimers()
+    const store = createMemoryHistoryStore({ retentionMs: 60_000 })
+    await store.put("api", saved("old"))
+    vi.advanceTimersByTime(30_000)
+    await store.put("api", saved("new"))
+    vi.advanceTimersByTime(40_000)
+
+    expect(await store.get("api", "old")).toBeNull()
+    expect(await store.get("api", "new")).not.toBeNull()
+  })
+})
+
+describe("createFileHistoryStore", () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(os.tmpdir(), "history-test-"))
+  })
+
+  afterEach(() => rm(directory, { recursive: true, force: true }))
+
+  ownerScopingTests(() => createFileHistoryStore({ directory }))
+
+  it("refuses owners and ids that could leave its directory", async () => {
+    const store = createFileHistoryStore({ directory: path.join(directory, "store") })
+    await store.put("alice", saved("one"))
+
+    expect(await store.list("../store/alice")).toEqual([])
+    expect(await store.get("alice", "../alice/one")).toBeNull()
+    await expect(store.put("..", saved("one"))).rejects.toThrow()
+  })
+})
@@ -0,0 +1,64 @@
+import os from "node:os"
+import path from "node:path"
+import { z } from "zod"
+import type { AnalysisMeta } from "@/lib/analysis-pipeline"
+import { analysisResultsSchema } from "@/lib/analysis-schema"
+import { createFileHistoryStore } from "./file"
+import { createMemoryHistoryStore } from "./memory"
+import type { HistoryBackend, HistoryStore } from "./types"
+
+export { historyOwner } from "./owner"
+export type { HistoryBackend, HistoryStore, SavedAnalysis } from "./types"
+
+/** Longest thumbnail data URL accepted; the browser renders them 160px wide */
+const MAX_THUMBNAIL_CHARS = 200_000
+
+let cachedInstance: HistoryStore | null | undefined
+
+export const historyNameSchema = z.string().trim().min(1).max(200)
+
+/** Validates analyses sent by the browser before they are stored */
+export const savedAnalysisSchema = z.object({
+  id: z
+    .string()
+    .max(100)
+    .regex(/^[\w-]+$/),
+  name: historyNameSchema,
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+  results: analysisResultsSchema,
+  meta: z.custom<AnalysisMeta>((value) => typeof value === "object").nullable(),
+  state: z.string().nullable(),
+  redacted: z.boolean(),
+  thumbnail: z.string().startsWith("data:image/").max(MAX_THUMBNAIL_CHARS).nullable(),
+})
+
+/**
+ * Builds the server-side history store selected by `ANALYSIS_HISTORY` (memory,
+ * file or off, defaulting to off, in which case history stays in the browser).
+ * The file backend writes to `ANALYSIS_HISTORY_DIR`, or a directory under the
+ * OS temp dir.
+ */
+export function createHistoryStoreFromEnv(env: NodeJS.ProcessEnv = process.env): HistoryStore | null {
+  const backend = (env.ANALYSIS_HISTORY || "off").toLowerCase() as HistoryBackend
+
+  switch (backend) {
+    case "memory":
+      return createMemoryHistoryStore()
+    case "file":
+      return createFileHistoryStore({
+        directory: env.ANALYSIS_HISTORY_DIR || path.join(os.tmpdir(), "autotruth-analysis-history"),
+      })
+    case "off":
+      return null
+    default:
+      throw new Error(`Unknown analysis history backend "${backend}"`)
+  }
+}
+
+export function getHistoryStore(): HistoryStore | null {
+  if (cachedInstance === undefined) {
+    cachedInstance = createHistoryStoreFromEnv()
+  }
+  return cachedInstance
+}
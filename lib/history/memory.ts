@@ -0,0 +1,61 @@
+import type { HistoryStore, SavedAnalysis } from "./types"
+
+export interface MemoryHistoryStoreOptions {
+  /** Entries kept across all owners; the least recently saved are evicted first */
+  maxEntries?: number
+  /** Entries kept per owner, so one owner cannot push everyone else's out */
+  maxEntriesPerOwner?: number
+  /** How long an entry is kept after it was last saved; kept until evicted by default */
+  retentionMs?: number
+}
+
+const newestFirst = (a: SavedAnalysis, b: SavedAnalysis) => b.updatedAt.localeCompare(a.updatedAt)
+
+/** Keeps the history in process memory, for local development */
+export function createMemoryHistoryStore({
+  maxEntries = 1000,
+  maxEntriesPerOwner = 100,
+  retentionMs = Infinity,
+}: MemoryHistoryStoreOptions = {}): HistoryStore {
+  // Keyed by owner and id; a Map iterates in insertion order, so re-inserting on save keeps it oldest first
+  const entries = new Map<string, { owner: string; savedAt: number; analysis: SavedAnalysis }>()
+  const keyOf = (owner: string, id: string) => `${owner}\0${id}`
+
+  const evictExpired = () => {
+    const cutoff = Date.now() - retentionMs
+    for (const [key, entry] of entries) {
+      if (entry.savedAt >= cutoff) break
+      entries.delete(key)
+    }
+  }
+
+  const evictOldest = (matches: (owner: string) => boolean, keep: number) => {
+    const keys = [...entries].filter(([, entry]) => matches(entry.owner)).map(([key]) => key)
+    for (const key of keys.slice(0, Math.max(0, keys.length - keep))) entries.delete(key)
+  }
+
+  return {
+    async list(owner) {
+      evictExpired()
+      return [...entries.values()]
+        .filter((entry) => entry.owner === owner)
+        .map((entry) => entry.analysis)
+        .sort(newestFirst)
+    },
+    async get(owner, id) {
+      evictExpired()
+      return entries.get(keyOf(owner, id))?.analysis ?? null
+    },
+    async put(owner, analysis) {
+      const key = keyOf(owner, analysis.id)
+      entries.delete(key)
+      entries.set(key, { owner, savedAt: Date.now(), analysis })
+      evictExpired()
+      evictOldest((entryOwner) => entryOwner === owner, maxEntriesPerOwner)
+      evictOldest(() => true, maxEntries)
+    },
+    async delete(owner, id) {
+      return entries.delete(keyOf(owner, id))
+    },
+  }
+}
@@ -0,0 +1,30 @@
+import { createHash, randomBytes } from "node:crypto"
+import { cookies } from "next/headers"
+
+const OWNER_COOKIE = "autotruth_history"
+
+const ONE_YEAR_SECONDS = 365 * 24 * 60 * 60
+
+/**
+ * The owner whose saved analyses a history request may see. Each browser gets
+ * a random token in an httpOnly cookie on its first history request, and the
+ * entries are stored under a hash of it, so the store never holds a token that
+ * could be replayed. Only callable from route handlers, which may set cookies.
+ */
+export async function historyOwner(): Promise<string> {
+  const jar = await cookies()
+  let token = jar.get(OWNER_COOKIE)?.value
+
+  if (!token || !/^[\w-]{43}$/.test(token)) {
+    token = randomBytes(32).toString("base64url")
+    jar.set(OWNER_COOKIE, token, {
+      httpOnly: true,
+      sameSite: "strict",
+      secure: process.env.NODE_ENV === "production",
+      path: "/api/history",
+      maxAge: ONE_YEAR_SECONDS,
+    })
+  }
+
+  return createHash("sha256").update(token).digest("hex")
+}
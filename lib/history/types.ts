@@ -0,0 +1,33 @@
+import type { AnalysisMeta } from "@/lib/analysis-pipeline"
+import type { AnalysisResults } from "@/lib/analysis-schema"
+
+/** An analysis kept in the user's history, without the uploaded files */
+export interface SavedAnalysis {
+  id: string
+  name: string
+  createdAt: string
+  updatedAt: string
+  results: AnalysisResults
+  meta: AnalysisMeta | null
+  /** State whose rules were applied, if any */
+  state: string | null
+  /** True when pages were redacted before they were uploaded */
+  redacted: boolean
+  /** Small JPEG data URL of the first page */
+  thumbnail: string | null
+}
+
+/**
+ * Saved analyses, kept apart per owner: each method only sees the entries of
+ * the owner it is given. Owners are opaque ids made of word characters and dashes.
+ */
+export interface HistoryStore {
+  /** Newest first */
+  list(owner: string): Promise<SavedAnalysis[]>
+  get(owner: string, id: string): Promise<SavedAnalysis | null>
+  put(owner: string, analysis: SavedAnalysis): Promise<void>
+  /** Returns false when there was nothing to delete */
+  delete(owner: string, id: string): Promise<boolean>
+}
+
+export type HistoryBackend = "memory" | "file" | "off"
@@ -0,0 +1,147 @@
+import {
+  enhancePixels,
+  estimateSkew,
+  isFullFrame,
+  perspectiveSize,
+  warpPerspective,
+  type ImageEditSettings,
+  type Quad,
+} from "@/lib/image-processing"
+import { openPdf, renderPdfPage } from "@/lib/pdf-client"
+
+/** Longest side used when measuring skew; more detail does not improve the estimate */
+const SKEW_SAMPLE_DIMENSION = 800
+
+function createCanvas(width: number, height: number) {
+  const canvas = document.createElement("canvas")
+  canvas.width = Math.max(1, Math.round(width))
+  canvas.height = Math.max(1, Math.round(height))
+  return canvas
+}
+
+function context2d(canvas: HTMLCanvasElement) {
+  const context = canvas.getContext("2d", { willReadFrequently: true })
+  if (!context) throw new Error("Image editing is not supported in this browser")
+  return context
+}
+
+export function loadImage(src: string) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => resolve(image)
+    image.onerror = () => reject(new Error("The image could not be loaded"))
+    image.src = src
+  })
+}
+
+function drawScaled(source: CanvasImageSource, width: number, height: number, scale: number) {
+  const canvas = createCanvas(width * scale, height * scale)
+  const context = context2d(canvas)
+  context.imageSmoothingQuality = "high"
+  context.drawImage(source, 0, 0, canvas.width, canvas.height)
+  return canvas
+}
+
+/** Crops and flattens the page outline, scaled so the result fits within `maxDimension` */
+function flattenPage(image: HTMLImageElement, corners: Quad | null, maxDimension: number) {
+  const { naturalWidth: width, naturalHeight: height } = image
+
+  if (!corners || isFullFrame(corners)) {
+    return drawScaled(image, width, height, Math.min(1, maxDimension / Math.max(width, height)))
+  }
+
+  const quad = corners.map(({ x, y }) => ({ x: x * width, y: y * height })) as Quad
+  const size = perspectiveSize(quad)
+  const scale = Math.min(1, maxDimension / Math.max(size.width, size.height))
+
+  // Shrink the source first so the warp never touches more pixels than it outputs
+  const source = drawScaled(image, width, height, scale)
+  const pixels = context2d(source).getImageData(0, 0, source.width, source.height)
+  const scaledQuad = quad.map(({ x, y }) => ({ x: x * scale, y: y * scale })) as Quad
+  const warped = warpPerspective(pixels, scaledQuad, Math.round(size.width * scale), Math.round(size.height * scale))
+
+  const canvas = createCanvas(warped.width, warped.height)
+  context2d(canvas).putImageData(new ImageData(warped.data, warped.width, warped.height), 0, 0)
+  return canvas
+}
+
+function rotateCanvas(source: HTMLCanvasElement, degrees: number) {
+  if (degrees % 360 === 0) return source
+
+  const radians = (degrees * Math.PI) / 180
+  const sin = Math.abs(Math.sin(radians))
+  const cos = Math.abs(Math.cos(radians))
+  const canvas = createCanvas(source.width * cos + source.height * sin, source.width * sin + source.height * cos)
+  const context = context2d(canvas)
+
+  // Corners exposed by a partial turn are filled like paper rather than left transparent
+  context.fillStyle = "#ffffff"
+  context.fillRect(0, 0, canvas.width, canvas.height)
+  context.translate(canvas.width / 2, canvas.height / 2)
+  context.rotate(radians)
+  context.imageSmoothingQuality = "high"
+  context.drawImage(source, -source.width / 2, -source.height / 2)
+  return canvas
+}
+
+/** Applies every edit to the original image and returns the processed page */
+export function renderEditedImage(image: HTMLImageElement, settings: ImageEditSettings) {
+  const flattened = flattenPage(image, settings.corners, settings.maxDimension)
+  const canvas = rotateCanvas(flattened, settings.rotation + settings.skew)
+
+  if (settings.grayscale || settings.threshold || settings.contrast !== 0) {
+    const context = context2d(canvas)
+    const pixels = context.getImageData(0, 0, canvas.width, canvas.height)
+    enhancePixels(pixels, settings)
+    context.putImageData(pixels, 0, 0)
+  }
+  return canvas
+}
+
+/** Skew correction in degrees for the page after cropping and quarter turns */
+export function detectSkewCorrection(image: HTMLImageElement, settings: ImageEditSettings) {
+  const flattened = flattenPage(image, settings.corners, SKEW_SAMPLE_DIMENSION)
+  const canvas = rotateCanvas(flattened, settings.rotation)
+  const pixels = context2d(canvas).getImageData(0, 0, canvas.width, canvas.height)
+  return -estimateSkew(pixels)
+}
+
+/** Encodes the processed page for upload. Black-and-white pages compress far better as PNG. */
+export function canvasToFile(canvas: HTMLCanvasElement, originalName: string, settings: ImageEditSettings) {
+  const type = settings.threshold ? "image/png" : "image/jpeg"
+  const name = `${originalName.replace(/\.[^.]+$/, "")}-edited.${settings.threshold ? "png" : "jpg"}`
+
+  return new Promise<File>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(new File([blob], name, { type })) : reject(new Error("The edited image could not be saved"))),
+      type,
+      0.9,
+    )
+  })
+}
+
+/** Small JPEG data URL of an image or the first page of a PDF, for lists such as the history sidebar */
+export async function renderThumbnail(file: File, width = 160) {
+  let source: HTMLCanvasElement | HTMLImageElement
+  if (file.type === "application/pdf") {
+    const pdf = await openPdf(file)
+    try {
+      const page = await pdf.getPage(1)
+      source = await renderPdfPage(pdf, 1, width / page.getViewport({ scale: 1 }).width)
+    } finally {
+      await pdf.destroy()
+    }
+  } else {
+    const url = URL.createObjectURL(file)
+    try {
+      source = await loadImage(url)
+    } finally {
+      URL.revokeObjectURL(url)
+    }
+  }
+
+  const scale = Math.min(1, width / source.width)
+  const canvas = createCanvas(source.width * scale, source.height * scale)
+  canvas.getContext("2d")?.drawImage(source, 0, 0, canvas.width, canvas.height)
+  return canvas.toDataURL("image/jpeg", 0.7)
+}
@@ -0,0 +1,264 @@
+/** Pixel operations behind the page editor, written against ImageData-shaped buffers rather than a canvas */
+
+export interface PixelBuffer {
+  data: Uint8ClampedArray
+  width: number
+  height: number
+}
+
+export interface Point {
+  x: number
+  y: number
+}
+
+/** Corners of the page in the order top-left, top-right, bottom-right, bottom-left */
+export type Quad = [Point, Point, Point, Point]
+
+export interface ImageEditSettings {
+  /** Page corners as fractions of the original image size, or null to keep the full frame */
+  corners: Quad | null
+  /** Clockwise quarter turns, in degrees (0, 90, 180 or 270) */
+  rotation: number
+  /** Fine clockwise rotation in degrees to straighten the text, from auto-deskew or by hand */
+  skew: number
+  grayscale: boolean
+  /** -100 to 100 */
+  contrast: number
+  /** Convert to black and white using an automatically chosen threshold */
+  threshold: boolean
+  /** Longest side of the output in pixels */
+  maxDimension: number
+}
+
+export const DEFAULT_MAX_DIMENSION = 2000
+
+export const DEFAULT_IMAGE_EDITS: ImageEditSettings = {
+  corners: null,
+  rotation: 0,
+  skew: 0,
+  grayscale: false,
+  contrast: 0,
+  threshold: false,
+  maxDimension: DEFAULT_MAX_DIMENSION,
+}
+
+export const FULL_FRAME: Quad = [
+  { x: 0, y: 0 },
+  { x: 1, y: 0 },
+  { x: 1, y: 1 },
+  { x: 0, y: 1 },
+]
+
+export const MAX_SKEW_DEGREES = 15
+
+const luminance = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y)
+
+export function isFullFrame(corners: Quad | null) {
+  return !corners || corners.every((corner, i) => distance(corner, FULL_FRAME[i]) < 1e-3)
+}
+
+/** Solves Ax = b in place with Gaussian elimination and partial pivoting */
+function solveLinearSystem(a: number[][], b: number[]) {
+  const n = b.length
+  for (let col = 0; col < n; col++) {
+    let pivot = col
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) {
+      throw new Error("The selected corners do not form a valid page outline")
+    }
+    ;[a[col], a[pivot]] = [a[pivot], a[col]]
+    ;[b[col], b[pivot]] = [b[pivot], b[col]]
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col]
+      for (let k = col; k < n; k++) a[row][k] -= factor * a[col][k]
+      b[row] -= factor * b[col]
+    }
+  }
+
+  const x = new Array<number>(n).fill(0)
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = b[row]
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k]
+    x[row] = sum / a[row][row]
+  }
+  return x
+}
+
+/** Homography coefficients [a..h] mapping each `from` point onto the matching `to` point */
+export function solveHomography(from: Quad, to: Quad) {
+  const a: number[][] = []
+  const b: number[] = []
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i]
+    const { x: u, y: v } = to[i]
+    a.push([x, y, 1, 0, 0, 0, -u * x, -u * y])
+    b.push(u)
+    a.push([0, 0, 0, x, y, 1, -v * x, -v * y])
+    b.push(v)
+  }
+  return solveLinearSystem(a, b)
+}
+
+/** Output size that keeps the page's proportions, from the average lengths of opposite edges */
+export function perspectiveSize(quad: Quad) {
+  const [tl, tr, br, bl] = quad
+  return {
+    width: Math.max(1, Math.round((distance(tl, tr) + distance(bl, br)) / 2)),
+    height: Math.max(1, Math.round((distance(tl, bl) + distance(tr, br)) / 2)),
+  }
+}
+
+/** Flattens the quadrilateral `quad` (in source pixels) into a width × height rectangle */
+export function warpPerspective(source: PixelBuffer, quad: Quad, width: number, height: number): PixelBuffer {
+  const rect: Quad = [
+    { x: 0, y: 0 },
+    { x: width, y: 0 },
+    { x: width, y: height },
+    { x: 0, y: height },
+  ]
+  // Map each output pixel back into the source so every pixel is filled
+  const [a, b, c, d, e, f, g, h] = solveHomography(rect, quad)
+  const out = new Uint8ClampedArray(width * height * 4)
+  const { data, width: sw, height: sh } = source
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const px = x + 0.5
+      const py = y + 0.5
+      const w = g * px + h * py + 1
+      const sx = Math.min(Math.max((a * px + b * py + c) / w - 0.5, 0), sw - 1)
+      const sy = Math.min(Math.max((d * px + e * py + f) / w - 0.5, 0), sh - 1)
+
+      const x0 = Math.floor(sx)
+      const y0 = Math.floor(sy)
+      const x1 = Math.min(x0 + 1, sw - 1)
+      const y1 = Math.min(y0 + 1, sh - 1)
+      const fx = sx - x0
+      const fy = sy - y0
+      const target = (y * width + x) * 4
+
+      for (let channel = 0; channel < 4; channel++) {
+        const top = data[(y0 * sw + x0) * 4 + channel] * (1 - fx) + data[(y0 * sw + x1) * 4 + channel] * fx
+        const bottom = data[(y1 * sw + x0) * 4 + channel] * (1 - fx) + data[(y1 * sw + x1) * 4 + channel] * fx
+        out[target + channel] = top * (1 - fy) + bottom * fy
+      }
+    }
+  }
+
+  return { data: out, width, height }
+}
+
+/** Otsu's method: the gray level that best separates ink from paper */
+export function otsuThreshold(buffer: PixelBuffer) {
+  const histogram = new Array<number>(256).fill(0)
+  const { data } = buffer
+  for (let i = 0; i < data.length; i += 4) {
+    histogram[Math.round(luminance(data[i], data[i + 1], data[i + 2]))]++
+  }
+
+  const total = buffer.width * buffer.height
+  let sum = 0
+  for (let level = 0; level < 256; level++) sum += level * histogram[level]
+
+  let backgroundSum = 0
+  let backgroundCount = 0
+  let best = 127
+  let bestVariance = -1
+  for (let level = 0; level < 256; level++) {
+    backgroundCount += histogram[level]
+    if (backgroundCount === 0) continue
+    const foregroundCount = total - backgroundCount
+    if (foregroundCount === 0) break
+
+    backgroundSum += level * histogram[level]
+    const backgroundMean = backgroundSum / backgroundCount
+    const foregroundMean = (sum - backgroundSum) / foregroundCount
+    const variance = backgroundCount * foregroundCount * (backgroundMean - foregroundMean) ** 2
+    if (variance > bestVariance) {
+      bestVariance = variance
+      best = level
+    }
+  }
+  return best
+}
+
+/** Applies grayscale, contrast and threshold in place */
+export function enhancePixels(buffer: PixelBuffer, settings: Pick<ImageEditSettings, "grayscale" | "contrast" | "threshold">) {
+  const { data } = buffer
+  const amount = Math.min(Math.max(settings.contrast, -100), 100) * 2.55
+  const factor = (259 * (amount + 255)) / (255 * (259 - amount))
+  const adjust = (value: number) => factor * (value - 128) + 128
+
+  for (let i = 0; i < data.length; i += 4) {
+    let r = adjust(data[i])
+    let g = adjust(data[i + 1])
+    let b = adjust(data[i + 2])
+    if (settings.grayscale || settings.threshold) {
+      r = g = b = luminance(r, g, b)
+    }
+    data[i] = r
+    data[i + 1] = g
+    data[i + 2] = b
+  }
+
+  if (settings.threshold) {
+    const level = otsuThreshold(buffer)
+    for (let i = 0; i < data.length; i += 4) {
+      const value = data[i] > level ? 255 : 0
+      data[i] = data[i + 1] = data[i + 2] = value
+    }
+  }
+  return buffer
+}
+
+function projectionScore(points: Point[], degrees: number, height: number) {
+  const radians = (degrees * Math.PI) / 180
+  const sin = Math.sin(radians)
+  const cos = Math.cos(radians)
+  const offset = height
+  const bins = new Array<number>(height * 3).fill(0)
+  for (const { x, y } of points) {
+    const row = Math.round(y * cos - x * sin) + offset
+    if (row >= 0 && row < bins.length) bins[row]++
+  }
+  return bins.reduce((score, count) => score + count * count, 0)
+}
+
+/**
+ * Estimates how far the text lines are tilted, in degrees clockwise, by finding the angle at
+ * which dark pixels pack into the fewest rows. Rotate by the negated result to straighten the page.
+ */
+export function estimateSkew(buffer: PixelBuffer) {
+  const level = otsuThreshold(buffer)
+  const { data, width, height } = buffer
+  const points: Point[] = []
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4
+      if (luminance(data[i], data[i + 1], data[i + 2]) <= level) points.push({ x, y })
+    }
+  }
+  // A nearly blank or nearly black page has no lines to measure
+  if (points.length < 50 || points.length > width * height * 0.5) return 0
+
+  const search = (from: number, to: number, step: number) => {
+    let best = 0
+    let bestScore = -1
+    for (let degrees = from; degrees <= to + 1e-9; degrees += step) {
+      const score = projectionScore(points, degrees, height)
+      if (score > bestScore) {
+        bestScore = score
+        best = degrees
+      }
+    }
+    return best
+  }
+
+  const coarse = search(-MAX_SKEW_DEGREES, MAX_SKEW_DEGREES, 1)
+  return Math.round(search(coarse - 1, coarse + 1, 0.1) * 10) / 10 || 0
+}
@@ -0,0 +1,87 @@
+import type { AnalysisStage } from "@/lib/analysis-progress"
+import { analyzeContract } from "@/lib/analyze-contract"
+import type { AnalysisInput } from "@/lib/api/input"
+import type { JobWebhookPayload } from "@/lib/api/schemas"
+import { getApiAnalysis, storeApiAnalysis } from "@/lib/api/store"
+import { logError } from "@/lib/log"
+import { createMemoryJobQueue } from "./memory"
+import type { AnalysisJob, JobBackend, JobQueue } from "./types"
+import { deliverWebhook } from "./webhooks"
+
+export type { AnalysisJob, JobBackend, JobQueue, JobStatus } from "./types"
+
+let cachedInstance: JobQueue | undefined
+
+/** Runs the same analysis as the form and the synchronous endpoint, then stores it for the API */
+export async function runAnalysisJob(input: AnalysisInput, onStage: (stage: AnalysisStage) => void) {
+  const generated = await analyzeContract(input.files, {
+    state: input.state,
+    reanalyze: input.reanalyze,
+    onProgress: (event) => event.type === "stage" && onStage(event.stage),
+  })
+  return (await storeApiAnalysis(input, generated)).id
+}
+
+/** An env setting as a whole number of at least 1, or undefined when unset or invalid */
+function countFromEnv(value: string | undefined) {
+  const count = Math.floor(Number(value))
+  return Number.isSafeInteger(count) && count >= 1 ? count : undefined
+}
+
+/** The secret that signs webhook callbacks, from `WEBHOOK_SECRET`; webhooks are refused without one */
+export const webhookSecretFromEnv = (env: NodeJS.ProcessEnv = process.env) => env.WEBHOOK_SECRET || null
+
+async function notifyWebhook(queue: JobQueue, job: AnalysisJob, env: NodeJS.ProcessEnv) {
+  const secret = webhookSecretFromEnv(env)
+  const webhook = job.webhook
+  if (!webhook || !secret) return
+
+  const analysis = job.analysisId ? await getApiAnalysis(job.analysisId) : null
+  const event = job.status === "succeeded" ? "job.succeeded" : "job.failed"
+  const payload: JobWebhookPayload = { event, job, analysis }
+
+  let attempts = 0
+  const delivered = await deliverWebhook(webhook.url, event, payload, {
+    secret,
+    maxAttempts: countFromEnv(env.WEBHOOK_MAX_ATTEMPTS),
+    onAttempt: (attempt) => {
+      attempts = attempt
+      void queue.update(job.id, { webhook: { ...webhook, attempts } })
+    },
+  })
+  await queue.update(job.id, { webhook: { ...webhook, attempts, status: delivered ? "delivered" : "failed" } })
+}
+
+/**
+ * Builds the job queue selected by `ANALYSIS_JOBS`. Only the in-process
+ * `memory` backend exists so far; it runs `ANALYSIS_JOB_CONCURRENCY` jobs at a
+ * time (default 1) and refuses new ones while `ANALYSIS_JOB_MAX_QUEUED` are
+ * waiting (default 20). Finished jobs with a webhook are reported to it, retrying
+ * up to `WEBHOOK_MAX_ATTEMPTS` times (default 5).
+ */
+export function createJobQueueFromEnv(env: NodeJS.ProcessEnv = process.env): JobQueue {
+  const backend = (env.ANALYSIS_JOBS || "memory").toLowerCase() as JobBackend
+
+  switch (backend) {
+    case "memory": {
+      const queue = createMemoryJobQueue({
+        runner: runAnalysisJob,
+        concurrency: countFromEnv(env.ANALYSIS_JOB_CONCURRENCY) ?? 1,
+        maxQueued: countFromEnv(env.ANALYSIS_JOB_MAX_QUEUED),
+        onSettled: (job) => {
+          notifyWebhook(queue, job, env).catch((error) => logError("Error delivering job webhook:", error))
+        },
+      })
+      return queue
+    }
+    default:
+      throw new Error(`Unknown analysis job backend "${backend}"`)
+  }
+}
+
+export function getJobQueue(): JobQueue {
+  if (cachedInstance === undefined) {
+    cachedInstance = createJobQueueFromEnv()
+  }
+  return cachedInstance
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from "vitest"
+import type { AnalysisInput } from "@/lib/api/input"
+import { createJobQueueFromEnv } from "./index"
+import { createMemoryJobQueue } from "./memory"
+import type { JobQueue } from "./types"
+import { deliverWebhook, signWebhookPayload, verifyWebhookSignature } from "./webhooks"
+
+vi.mock("@/lib/analyze-contract", () => ({
+  analyzeContract: async () => ({ data: { contractTerms: [], potentialIssues: [], summary: "" }, meta: null }),
+}))
+
+const input: AnalysisInput = { name: "Contract", files: [], state: null, reanalyze: false, webhookUrl: null }
+
+async function settled(queue: JobQueue, id: string) {
+  await vi.waitFor(async () => expect((await queue.get(id))?.finishedAt).not.toBeNull())
+  return (await queue.get(id))!
+}
+
+describe("createMemoryJobQueue", () => {
+  it("runs jobs and records the analysis they stored", async () => {
+    const queue = createMemoryJobQueue({ runner: async () => "analysis-1" })
+    const job = await queue.enqueue(input)
+
+    expect(job.status).toBe("queued")
+    expect(await settled(queue, job.id)).toMatchObject({ status: "succeeded", analysisId: "analysis-1" })
+  })
+
+  it("records failures in the API error shape", async () => {
+    const queue = createMemoryJobQueue({
+      runner: async () => {
+        throw new Error("boom")
+      },
+    })
+    const job = await queue.enqueue(input)
+
+    expect((await settled(queue, job.id)).error).toMatchObject({ code: "analysis_failed" })
+  })
+
+  it("refuses new jobs while too many are waiting", async () => {
+    const queue = createMemoryJobQueue({ runner: () => new Promise<string>(() => {}), maxQueued: 2 })
+    await queue.enqueue(input) // running
+    await queue.enqueue(input)
+    await queue.enqueue(input)
+
+    await expect(queue.enqueue(input)).rejects.toMatchObject({ status: 503, code: "queue_full" })
+  })
+})
+
+describe("createJobQueueFromEnv", () => {
+  it.each(["-1", "0", "1.5", "abc"])("still runs jobs with ANALYSIS_JOB_CONCURRENCY=%s", async (concurrency) => {
+    const queue = createJobQueueFromEnv({ NODE_ENV: "test", ANALYSIS_JOB_CONCURRENCY: concurrency })
+    const job = await queue.enqueue(input)
+
+    expect((await settled(queue, job.id)).status).toBe("succeeded")
+  })
+})
+
+describe("webhook signatures", () => {
+  it("verifies a signature made with the same secret", () => {
+    const body = JSON.stringify({ event: "job.succeeded" })
+    const header = signWebhookPayload(body, "secret")
+
+    expect(verifyWebhookSignature(body, header, "secret")).toBe(true)
+    expect(verifyWebhookSignature(body, header, "other")).toBe(false)
+    expect(verifyWebhookSignature(`${body} `, header, "secret")).toBe(false)
+  })
+
+  it("rejects stale timestamps", () => {
+    const header = signWebhookPayload("{}", "secret", 1_000)
+    expect(verifyWebhookSignature("{}", header, "secret", { now: 1_000_000 * 1000 })).toBe(false)
+  })
+})
+
+describe("deliverWebhook", () => {
+  it.each(["http://127.0.0.1/hook", "http://[::ffff:a9fe:a9fe]/latest/meta-data/", "http://[64:ff9b::7f00:1]/"])(
+    "never posts to %s",
+    async (url) => {
+      const fetchSpy = vi.spyOn(globalThis, "fetch")
+      const attempts: number[] = []
+      const delivered = await deliverWebhook(url, "job.succeeded", {}, {
+        secret: "secret",
+        maxAttempts: 3,
+        sleep: async () => {},
+        onAttempt: (attempt) => attempts.push(attempt),
+      })
+
+      expect(delivered).toBe(false)
+      expect(attempts).toEqual([1, 2, 3])
+      expect(fetchSpy).not.toHaveBeenCalled()
+      fetchSpy.mockRestore()
+    },
+  )
+})
@@ -0,0 +1,112 @@
+import { randomUUID } from "node:crypto"
+import { ApiError, describeApiError } from "@/lib/api/errors"
+import type { AnalysisInput } from "@/lib/api/input"
+import { logError } from "@/lib/log"
+import type { AnalysisJob, JobQueue, JobRunner } from "./types"
+
+export interface MemoryJobQueueOptions {
+  runner: JobRunner
+  /** Jobs run at the same time; the rest wait in order */
+  concurrency?: number
+  /** Jobs that may wait at once, each holding its decoded upload; more are refused */
+  maxQueued?: number
+  /** How long finished jobs can still be polled */
+  retentionMs?: number
+  /** Called once a job has succeeded or failed */
+  onSettled?: (job: AnalysisJob) => void
+}
+
+const DEFAULT_MAX_QUEUED = 20
+
+/** How long finished jobs are kept unless the queue is given another retention */
+export const DEFAULT_JOB_RETENTION_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Runs jobs inside the server process, for local development and single
+ * long-running servers. Jobs are lost when the process restarts, and on
+ * serverless hosts the process may be frozen before a job finishes.
+ */
+export function createMemoryJobQueue({
+  runner,
+  concurrency = 1,
+  maxQueued = DEFAULT_MAX_QUEUED,
+  retentionMs = DEFAULT_JOB_RETENTION_MS,
+  onSettled,
+}: MemoryJobQueueOptions): JobQueue {
+  const jobs = new Map<string, AnalysisJob>()
+  const waiting: { id: string; input: AnalysisInput }[] = []
+  let running = 0
+
+  const update = (id: string, patch: Partial<Omit<AnalysisJob, "id">>) => {
+    const job = jobs.get(id)
+    if (!job) return null
+    const updated = { ...job, ...patch, updatedAt: new Date().toISOString() }
+    jobs.set(id, updated)
+    return updated
+  }
+
+  const evictExpired = () => {
+    const cutoff = new Date(Date.now() - retentionMs).toISOString()
+    for (const [id, job] of jobs) {
+      if (job.finishedAt && job.finishedAt < cutoff) jobs.delete(id)
+    }
+  }
+
+  const run = async (id: string, input: AnalysisInput) => {
+    update(id, { status: "running", startedAt: new Date().toISOString() })
+    let settled: AnalysisJob | null
+    try {
+      const analysisId = await runner(input, (stage) => update(id, { stage }))
+      settled = update(id, { status: "succeeded", analysisId, finishedAt: new Date().toISOString() })
+    } catch (error) {
+      logError(`Error in analysis job ${id}:`, error)
+      settled = update(id, { status: "failed", error: describeApiError(error).body, finishedAt: new Date().toISOString() })
+    }
+    if (settled) onSettled?.(settled)
+  }
+
+  const startWaiting = () => {
+    while (running < concurrency && waiting.length > 0) {
+      const { id, input } = waiting.shift()!
+      running++
+      void run(id, input).finally(() => {
+        running--
+        startWaiting()
+      })
+    }
+  }
+
+  return {
+    async enqueue(input) {
+      evictExpired()
+      if (waiting.length >= maxQueued) {
+        throw new ApiError(503, "queue_full", "Too many analyses are waiting. Please try again in a few minutes.")
+      }
+      const now = new Date().toISOString()
+      const job: AnalysisJob = {
+        id: randomUUID(),
+        status: "queued",
+        name: input.name,
+        state: input.state,
+        createdAt: now,
+        updatedAt: now,
+        startedAt: null,
+        finishedAt: null,
+        stage: null,
+        analysisId: null,
+        error: null,
+        webhook: input.webhookUrl ? { url: input.webhookUrl, status: "pending", attempts: 0 } : null,
+      }
+      jobs.set(job.id, job)
+      waiting.push({ id: job.id, input })
+      startWaiting()
+      return job
+    },
+    async get(id) {
+      return jobs.get(id) ?? null
+    },
+    async update(id, patch) {
+      return update(id, patch)
+    },
+  }
+}
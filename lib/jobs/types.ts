@@ -0,0 +1,43 @@
+import type { AnalysisStage } from "@/lib/analysis-progress"
+import type { ApiErrorBody } from "@/lib/api/errors"
+import type { AnalysisInput } from "@/lib/api/input"
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed"
+
+export interface WebhookDelivery {
+  url: string
+  status: "pending" | "delivered" | "failed"
+  attempts: number
+}
+
+/** An analysis that runs in the background, polled through `GET /api/v1/jobs/:id` */
+export interface AnalysisJob {
+  id: string
+  status: JobStatus
+  name: string
+  state: string | null
+  createdAt: string
+  updatedAt: string
+  startedAt: string | null
+  finishedAt: string | null
+  /** Last progress stage reported while running */
+  stage: AnalysisStage | null
+  /** Set once the job succeeded; fetch it from `/api/v1/analyses/:id` */
+  analysisId: string | null
+  /** Set once the job failed, in the same shape as API error responses */
+  error: ApiErrorBody | null
+  webhook: WebhookDelivery | null
+}
+
+/** Does the work of one job and returns the id of the stored analysis */
+export type JobRunner = (input: AnalysisInput, onStage: (stage: AnalysisStage) => void) => Promise<string>
+
+export interface JobQueue {
+  /** Records the job as queued and starts it once a worker is free */
+  enqueue(input: AnalysisInput): Promise<AnalysisJob>
+  get(id: string): Promise<AnalysisJob | null>
+  /** Changes fields of a job, e.g. to record webhook deliveries */
+  update(id: string, patch: Partial<Omit<AnalysisJob, "id">>): Promise<AnalysisJob | null>
+}
+
+export type JobBackend = "memory"
@@ -0,0 +1,95 @@
+import { createHmac, randomUUID, timingSafeEqual } from "node:crypto"
+import { fetchPublicUrl } from "@/lib/api/input"
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-AutoTruth-Signature"
+
+/** How far a signature timestamp may be from the receiver's clock before it is rejected as a replay */
+const DEFAULT_TOLERANCE_SECONDS = 5 * 60
+
+const WEBHOOK_TIMEOUT_MS = 10_000
+
+export interface WebhookDeliveryOptions {
+  secret: string
+  maxAttempts?: number
+  /** Delay before the first retry; it doubles for every retry after that */
+  baseDelayMs?: number
+  /** Called before every attempt with its 1-based number */
+  onAttempt?: (attempt: number) => void
+  sleep?: (ms: number) => Promise<void>
+}
+
+const hmac = (secret: string, timestamp: number, body: string) =>
+  createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")
+
+/**
+ * Signs a webhook body the way receivers verify it: `t=<unix seconds>,v1=<hex>`,
+ * where the hex is the HMAC-SHA256 of `<t>.<body>` keyed with the shared secret.
+ */
+export function signWebhookPayload(body: string, secret: string, timestamp = Math.floor(Date.now() / 1000)) {
+  return `t=${timestamp},v1=${hmac(secret, timestamp, body)}`
+}
+
+/** Checks a signature header against the raw body, rejecting stale timestamps */
+export function verifyWebhookSignature(
+  body: string,
+  header: string,
+  secret: string,
+  { toleranceSeconds = DEFAULT_TOLERANCE_SECONDS, now = Date.now() } = {},
+) {
+  const fields = Object.fromEntries(header.split(",").map((part) => part.trim().split("=", 2)))
+  const timestamp = Number(fields.t)
+  if (!Number.isInteger(timestamp) || Math.abs(now / 1000 - timestamp) > toleranceSeconds) return false
+
+  const expected = Buffer.from(hmac(secret, timestamp, body))
+  const actual = Buffer.from(fields.v1 ?? "")
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+/** Timeouts, throttling and server errors are worth retrying; other client errors will not change */
+const isRetryable = (status: number) => status === 408 || status === 429 || status >= 500
+
+const backoffDelay = (baseDelayMs: number, retry: number) => baseDelayMs * 2 ** (retry - 1) * (0.75 + Math.random() * 0.5)
+
+const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+/**
+ * POSTs a signed JSON event, retrying with exponential backoff and jitter.
+ * Every attempt is signed afresh but carries the same delivery id, so
+ * receivers can drop duplicates, and checks again that the host is public.
+ * Resolves to whether the receiver accepted it.
+ */
+export async function deliverWebhook(
+  url: string,
+  event: string,
+  payload: unknown,
+  { secret, maxAttempts = 5, baseDelayMs = 1000, onAttempt, sleep = wait }: WebhookDeliveryOptions,
+): Promise<boolean> {
+  const body = JSON.stringify(payload)
+  const deliveryId = randomUUID()
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    if (attempt > 1) await sleep(backoffDelay(baseDelayMs, attempt - 1))
+    onAttempt?.(attempt)
+
+    try {
+      const response = await fetchPublicUrl(new URL(url), {
+        method: "POST",
+        timeoutMs: WEBHOOK_TIMEOUT_MS,
+        headers: {
+          "Content-Type": "application/json",
+          "X-AutoTruth-Event": event,
+          "X-AutoTruth-Delivery": deliveryId,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(body, secret),
+        },
+        body,
+      })
+      await response.body?.cancel()
+      if (response.ok) return true
+      if (!isRetryable(response.status)) return false
+    } catch {
+      // Network errors, timeouts and hosts that resolve to private addresses are retried
+    }
+  }
+
+  return false
+}
@@ -0,0 +1,103 @@
+const closers: Record<string, string> = { "{": "}", "[": "]" }
+
+const trailingKey = /[{,]\s*"(?:[^"\\]|\\.)*"$/
+const trailingKeyWithColon = /"(?:[^"\\]|\\.)*"\s*:$/
+const partialLiteral = /(?<![\w"])(?:t|tr|tru|f|fa|fal|fals|n|nu|nul)$/
+
+/**
+ * Pulls the most likely JSON object out of a model response, dropping code
+ * fences and any prose before the first brace. The closing fence is optional
+ * so truncated responses still yield their partial object.
+ */
+export function extractJsonCandidate(text: string): string {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)(?:```|$)/)
+  const body = fenced ? fenced[1] : text
+  const start = body.indexOf("{")
+  return (start === -1 ? body : body.slice(start)).trim()
+}
+
+/**
+ * Best-effort fix-up of almost-JSON: removes trailing commas, ignores text
+ * after the top-level value, closes an unterminated string, drops a dangling
+ * key or partial literal and closes any brackets left open by truncation.
+ */
+export function repairJson(input: string): string {
+  const stack: string[] = []
+  let output = ""
+  let inString = false
+  let escaped = false
+
+  for (const char of input) {
+    if (inString) {
+      output += char
+      if (escaped) {
+        escaped = false
+      } else if (char === "\\") {
+        escaped = true
+      } else if (char === '"') {
+        inString = false
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inString = true
+      output += char
+    } else if (char === "{" || char === "[") {
+      stack.push(closers[char])
+      output += char
+    } else if (char === "}" || char === "]") {
+      // Skip stray closers that don't match the open bracket
+      if (stack[stack.length - 1] !== char) continue
+      stack.pop()
+      output = output.replace(/,\s*$/, "") + char
+      if (stack.length === 0) break
+    } else {
+      output += char
+    }
+  }
+
+  if (inString) {
+    if (escaped) output = output.slice(0, -1)
+    output += '"'
+  }
+
+  let previous: string
+  do {
+    previous = output
+    output = output.trimEnd()
+    if (output.endsWith(",")) {
+      output = output.slice(0, -1)
+    } else if (trailingKeyWithColon.test(output)) {
+      output = output.replace(trailingKeyWithColon, "")
+    } else if (stack[stack.length - 1] === "}" && trailingKey.test(output)) {
+      output = output.replace(/"(?:[^"\\]|\\.)*"$/, "")
+    } else if (partialLiteral.test(output)) {
+      output = output.replace(partialLiteral, "")
+    }
+  } while (output !== previous)
+
+  while (stack.length > 0) {
+    output += stack.pop()
+  }
+
+  return output
+}
+
+/**
+ * Parses a model response as JSON, falling back to `repairJson` when the
+ * strict parse fails. Throws the original `SyntaxError` if both fail.
+ */
+export function parseLenientJson(text: string): unknown {
+  const candidate = extractJsonCandidate(text)
+
+  try {
+    return JSON.parse(candidate)
+  } catch (error) {
+    try {
+      return JSON.parse(repairJson(candidate))
+    } catch {
+      throw error
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import type { LeaseTerms, PotentialIssue } from "@/lib/analysis-schema"
+import { formatCurrency, roundCents } from "@/lib/finance"
+
+/** Differences below this many dollars per month are treated as rounding */
+const PAYMENT_TOLERANCE = 1
+
+/** Overcharges above this over the whole lease are reported as high severity */
+const HIGH_SEVERITY_OVERCHARGE = 500
+
+/** Excess-mileage charges above this many dollars per mile are unusually high */
+const HIGH_EXCESS_MILEAGE_RATE = 0.3
+
+/**
+ * Dealers often quote the money factor multiplied by 1,000 ("2.5" for
+ * 0.0025). Anything this large cannot be a real money factor.
+ */
+const QUOTED_MONEY_FACTOR_THRESHOLD = 0.05
+
+export function normalizeMoneyFactor(moneyFactor: number) {
+  return moneyFactor > QUOTED_MONEY_FACTOR_THRESHOLD ? moneyFactor / 1000 : moneyFactor
+}
+
+/** The conventional APR equivalent of a money factor, as a percentage */
+export function moneyFactorToApr(moneyFactor: number) {
+  return normalizeMoneyFactor(moneyFactor) * 2400
+}
+
+export interface LeasePaymentBreakdown {
+  adjustedCapitalizedCost: number
+  depreciation: number
+  rentCharge: number
+  basePayment: number
+  equivalentApr: number
+}
+
+/**
+ * Standard lease payment: depreciation spread over the term plus a rent
+ * charge of (adjusted cap cost + residual) x money factor.
+ */
+export function calculateLeasePayment(lease: LeaseTerms): LeasePaymentBreakdown | null {
+  const { capitalizedCost, residualValue, moneyFactor, termMonths } = lease
+  if (capitalizedCost == null || residualValue == null || moneyFactor == null || !termMonths || termMonths <= 0) {
+    return null
+  }
+
+  const factor = normalizeMoneyFactor(moneyFactor)
+  const adjustedCapitalizedCost = capitalizedCost - (lease.capCostReduction ?? 0)
+  const depreciation = (adjustedCapitalizedCost - residualValue) / termMonths
+  const rentCharge = (adjustedCapitalizedCost + residualValue) * factor
+
+  return {
+    adjustedCapitalizedCost: roundCents(adjustedCapitalizedCost),
+    depreciation: roundCents(depreciation),
+    rentCharge: roundCents(rentCharge),
+    basePayment: roundCents(depreciation + rentCharge),
+    equivalentApr: factor * 2400,
+  }
+}
+
+export function leaseVerificationIssues(lease: LeaseTerms): PotentialIssue[] {
+  const issues: PotentialIssue[] = []
+  const breakdown = calculateLeasePayment(lease)
+  const stated = lease.monthlyPayment
+
+  if (breakdown && stated != null && lease.termMonths) {
+    const difference = roundCents(stated - breakdown.basePayment)
+    const terms = `${formatCurrency(breakdown.adjustedCapitalizedCost)} adjusted cap cost, ${formatCurrency(lease.residualValue ?? 0)} residual and a money factor of ${normalizeMoneyFactor(lease.moneyFactor ?? 0)} (about ${breakdown.equivalentApr.toFixed(2)}% APR) over ${lease.termMonths} months`
+
+    if (difference > PAYMENT_TOLERANCE) {
+      const overcharge = roundCents(difference * lease.termMonths)
+      issues.push({
+        title: "Lease payment is higher than the lease terms explain",
+        description: `The stated payment of ${formatCurrency(stated)} is ${formatCurrency(difference)} more than the ${formatCurrency(breakdown.basePayment)} base payment for a ${terms}. Over the lease that is ${formatCurrency(overcharge)} in unexplained charges.`,
+        severity: overcharge > HIGH_SEVERITY_OVERCHARGE ? "high" : "warning",
+        recommendation:
+          "Ask the dealer to show the payment calculation and check whether the money factor or cap cost was marked up, or add-ons were included.",
+        source: "computed",
+      })
+    } else if (difference < -PAYMENT_TOLERANCE) {
+      issues.push({
+        title: "Lease payment is lower than the lease terms require",
+        description: `The stated payment of ${formatCurrency(stated)} is less than the ${formatCurrency(breakdown.basePayment)} base payment for a ${terms}. One of the figures may be misstated.`,
+        severity: "warning",
+        recommendation: "Confirm the cap cost, residual value and money factor with the dealer before signing.",
+        source: "computed",
+      })
+    } else {
+      issues.push({
+        title: "Lease payment math checks out",
+        description: `The stated payment of ${formatCurrency(stated)} matches a ${terms}.`,
+        severity: "good",
+        source: "computed",
+      })
+    }
+  }
+
+  if (lease.excessMileageRate != null && lease.excessMileageRate > HIGH_EXCESS_MILEAGE_RATE) {
+    issues.push({
+      title: "High excess-mileage charge",
+      description: `The lease charges ${formatCurrency(lease.excessMileageRate)} per mile over the allowance, more than the ${formatCurrency(HIGH_EXCESS_MILEAGE_RATE)} most leases charge.`,
+      severity: "warning",
+      recommendation: "Negotiate a lower rate or buy extra miles up front if you expect to exceed the allowance.",
+      source: "computed",
+    })
+  }
+
+  return issues
+}
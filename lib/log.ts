@@ -0,0 +1,7 @@
+import { scrubPii } from "@/lib/scrub"
+
+/** Writes an error to the server log with personal data scrubbed from its message and stack */
+export function logError(message: string, error: unknown) {
+  const detail = error instanceof Error ? (error.stack ?? `${error.name}: ${error.message}`) : error
+  console.error(message, scrubPii(detail))
+}
@@ -0,0 +1,21 @@
+import type { PDFDocumentProxy } from "unpdf/pdfjs"
+
+/** Opens a PDF in the browser with the pdf.js build bundled with unpdf, loaded only when first needed */
+export async function openPdf(file: File): Promise<PDFDocumentProxy> {
+  const { getDocumentProxy } = await import("unpdf")
+  return getDocumentProxy(new Uint8Array(await file.arrayBuffer()))
+}
+
+/** Renders one page onto a new canvas at `scale` times its size in PDF points */
+export async function renderPdfPage(pdf: PDFDocumentProxy, pageNumber: number, scale: number) {
+  const page = await pdf.getPage(pageNumber)
+  const viewport = page.getViewport({ scale })
+  const canvas = document.createElement("canvas")
+  const context = canvas.getContext("2d")
+  if (!context) throw new Error("PDF rendering is not supported in this browser")
+
+  canvas.width = Math.floor(viewport.width)
+  canvas.height = Math.floor(viewport.height)
+  await page.render({ canvasContext: context, viewport }).promise
+  return canvas
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest"
+import { findPii } from "./pii"
+import { createScrubber } from "./scrub"
+
+const kinds = (text: string) => findPii(text).map((match) => [match.kind, match.text])
+
+describe("findPii", () => {
+  it.each([
+    ["Email jane.doe+cars@example.com", "email", "jane.doe+cars@example.com"],
+    ["SSN 123-45-6789", "ssn", "123-45-6789"],
+    ["Call (555) 123-4567", "phone", "(555) 123-4567"],
+    ["Phone 555-123-4567", "phone", "555-123-4567"],
+    ["DOB: 04/12/1985", "date-of-birth", "04/12/1985"],
+    ["Date of birth March 3, 1990", "date-of-birth", "March 3, 1990"],
+    ["Lives at 1234 Main St, Apt 5", "street-address", "1234 Main St, Apt 5"],
+    ["Card 4111 1111 1111 1111", "account-number", "4111 1111 1111 1111"],
+    ["Account 123456789012", "account-number", "123456789012"],
+    ["Loan no. 0042-7781-3310", "account-number", "0042-7781-3310"],
+  ])("finds the personal data in %s", (text, kind, match) => {
+    expect(kinds(text)).toEqual([[kind, match]])
+  })
+
+  it.each([
+    "Contract date 2024-01-15",
+    "First payment due 01-15-2025",
+    "Signed 12/31/2024",
+    "Dealer ZIP 94105-1234",
+    "Amount financed $28,894.00",
+    "Term 72 months at 9.9% APR",
+    "VIN 1HGCM82633A004352",
+  ])("leaves %s alone", (text) => {
+    expect(findPii(text)).toEqual([])
+  })
+
+  it("only runs the detectors it is given", () => {
+    expect(findPii("jane@example.com 123-45-6789", ["ssn"]).map((match) => match.kind)).toEqual(["ssn"])
+  })
+})
+
+describe("createScrubber", () => {
+  it("masks personal data in nested values", () => {
+    const scrubber = createScrubber({ policy: "mask", kinds: ["email", "ssn"] })
+    expect(scrubber.scrub({ notes: ["Buyer jane@example.com, SSN 123-45-6789"], total: 100 })).toEqual({
+      notes: ["Buyer [email], SSN [SSN]"],
+      total: 100,
+    })
+  })
+
+  it("drops personal data without leaving stray spaces", () => {
+    const scrubber = createScrubber({ policy: "drop", kinds: ["email"] })
+    expect(scrubber.scrubText("Contact jane@example.com.")).toBe("Contact.")
+  })
+})
@@ -0,0 +1,105 @@
+/** Pattern-based detection of personal data in contract text */
+
+export const PII_KINDS = ["email", "ssn", "phone", "date-of-birth", "street-address", "account-number"] as const
+
+export type PiiKind = (typeof PII_KINDS)[number]
+
+export interface PiiMatch {
+  kind: PiiKind
+  /** Offsets into the searched text, end exclusive */
+  start: number
+  end: number
+  text: string
+}
+
+interface PiiDetector {
+  kind: PiiKind
+  label: string
+  /** Placeholder that replaces the match when masking */
+  mask: string
+  pattern: RegExp
+  accept?: (match: string) => boolean
+}
+
+const digitCount = (value: string) => value.replace(/\D/g, "").length
+
+/** Checked in order; a later detector never claims text an earlier one already matched */
+const PII_DETECTORS: PiiDetector[] = [
+  {
+    kind: "email",
+    label: "Email address",
+    mask: "[email]",
+    pattern: /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g,
+  },
+  {
+    kind: "ssn",
+    label: "Social Security number",
+    mask: "[SSN]",
+    pattern: /\b\d{3}[- ]\d{2}[- ]\d{4}\b/g,
+  },
+  {
+    kind: "phone",
+    label: "Phone number",
+    mask: "[phone]",
+    pattern: /(?:\+?1[ .-]?)?(?:\(\d{3}\)\s?|\b\d{3}[ .-])\d{3}[ .-]\d{4}\b/g,
+  },
+  {
+    kind: "date-of-birth",
+    label: "Date of birth",
+    mask: "[date of birth]",
+    // Only dates labelled as a birth date; contract and payment dates are not personal
+    pattern:
+      /(?<=\b(?:DOB|D\.O\.B\.|date of birth|birth ?date|born(?: on)?)\s*[:#-]?\s*)(?:\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}|\d{4}-\d{2}-\d{2}|[A-Z][a-z]{2,8}\.? \d{1,2},? \d{4})/gi,
+  },
+  {
+    kind: "street-address",
+    label: "Street address",
+    mask: "[address]",
+    pattern:
+      /\b\d{1,6}(?: [A-Z0-9][\w'.-]*){1,4} (?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Drive|Dr|Lane|Ln|Court|Ct|Way|Place|Pl|Terrace|Ter|Parkway|Pkwy|Circle|Cir|Highway|Hwy)\b\.?(?:,? (?:Apt|Suite|Ste|Unit|#) ?[\w-]+)?/g,
+  },
+  {
+    kind: "account-number",
+    label: "Account number",
+    mask: "[account number]",
+    // Bank, card and loan account numbers, optionally in groups of three or more digits separated by spaces or
+    // dashes. Dates are grouped with one- or two-digit months and days, so they never match.
+    pattern: /\b\d{3,}(?:[ -]\d{3,})*\b/g,
+    accept: (match) => {
+      const digits = digitCount(match)
+      // Phone numbers (3-3-4) and ZIP+4 codes (5-4) are not account numbers
+      return (
+        digits >= 8 && digits <= 19 && !/^\d{3}[- ]\d{3}[- ]\d{4}$/.test(match) && !/^\d{5}-\d{4}$/.test(match)
+      )
+    },
+  },
+]
+
+export const PII_LABELS = Object.fromEntries(PII_DETECTORS.map(({ kind, label }) => [kind, label])) as Record<
+  PiiKind,
+  string
+>
+
+export const PII_MASKS = Object.fromEntries(PII_DETECTORS.map(({ kind, mask }) => [kind, mask])) as Record<
+  PiiKind,
+  string
+>
+
+export function findPii(text: string, kinds: readonly PiiKind[] = PII_KINDS): PiiMatch[] {
+  const matches: PiiMatch[] = []
+  const overlaps = (start: number, end: number) => matches.some((match) => start < match.end && end > match.start)
+
+  for (const detector of PII_DETECTORS) {
+    if (!kinds.includes(detector.kind)) continue
+
+    for (const match of text.matchAll(detector.pattern)) {
+      const start = match.index ?? 0
+      const end = start + match[0].length
+      if (detector.accept && !detector.accept(match[0])) continue
+      if (overlaps(start, end)) continue
+      matches.push({ kind: detector.kind, start, end, text: match[0] })
+    }
+  }
+
+  return matches.sort((a, b) => a.start - b.start)
+}
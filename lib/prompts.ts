@@ -0,0 +1,212 @@
+import type { ContractType } from "@/lib/analysis-schema"
+
+/** Bump whenever the prompts change so cached analyses from older prompts are not reused */
+export const PROMPT_VERSION = "3"
+
+export const CONTRACT_TYPE_PROMPT = `
+    Look at this car contract and decide whether it is a purchase (cash or retail installment
+    financing) or a lease (it mentions a residual value, money factor, capitalized cost or
+    returning the vehicle at the end of the term).
+
+    Respond with ONLY this JSON object and no additional text:
+    { "contractType": "purchase|lease" }
+  `
+
+const PURCHASE_PROMPT = `
+    Analyze this car purchase contract image in detail. 
+    
+    Provide a comprehensive analysis with the following sections:
+    
+    1. CONTRACT TERMS: Extract all key terms from the contract including purchase price, interest rate, loan term, down payment, monthly payment, dealer fees, documentation fees, warranties, insurance, and any add-ons. For each term, provide:
+       - The exact value
+       - Whether the term is normal, concerning (warning), or highly concerning (high)
+       - A detailed explanation of why this term is flagged (if applicable)
+       - Where it appears: the page number and the bounding box of the line it is printed on
+       
+    2. POTENTIAL ISSUES: Identify any concerning elements in the contract such as:
+       - Above-market interest rates
+       - Overpriced warranties or add-ons
+       - Excessive fees
+       - Unfavorable clauses
+       - Below-market trade-in values
+       - missing information
+       For each issue, provide:
+       - A clear title
+       - A detailed description
+       - The severity (high, warning, or good)
+       - A specific recommendation to address the issue
+       - Where it appears, if it refers to a specific line of the contract
+       
+    3. TRUSTWORTHINESS SCORE: Provide a numerical score from 0-100 representing the overall fairness and transparency of the contract, where:
+       - 0-59: Poor (many concerning terms)
+       - 60-79: Caution (some concerning terms)
+       - 80-100: Good (few or no concerning terms)
+       
+    4. SUMMARY: A concise paragraph summarizing the key findings and recommendations.
+
+    5. FINANCIALS: The raw figures from the contract as plain numbers (no currency symbols or units),
+       or null when a figure is not present:
+       - purchasePrice, downPayment, tradeInValue, amountFinanced and monthlyPayment in dollars
+       - apr as a percentage (e.g. 9.9 for 9.9%)
+       - termMonths as the number of monthly payments
+       Also list the itemized fees under "fees": documentationFee (dealer documentation or
+       processing fee), salesTax and titleAndRegistration (government title, license and
+       registration fees combined), in dollars or null.
+
+    6. TRUTH-IN-LENDING DISCLOSURE: If the contract has the federal disclosure box, copy its
+       "Annual Percentage Rate", "Finance Charge", "Amount Financed", "Total of Payments" and
+       "Total Sale Price" exactly as printed, as plain numbers. Use null for the whole object
+       if there is no such box, and null for any value that is missing from it.
+    
+    Format your response as a JSON object with the following structure:
+    {
+      "contractTerms": [
+        {
+          "term": "string",
+          "value": "string",
+          "flag": "normal|warning|high|good",
+          "details": "string",
+          "location": { "page": number, "x": number, "y": number, "width": number, "height": number } | null
+        }
+      ],
+      "potentialIssues": [
+        {
+          "title": "string",
+          "description": "string",
+          "severity": "high|warning|good",
+          "recommendation": "string",
+          "location": { "page": number, "x": number, "y": number, "width": number, "height": number } | null
+        }
+      ],
+      "trustworthinessScore": number,
+      "summary": "string",
+      "financials": {
+        "purchasePrice": number | null,
+        "downPayment": number | null,
+        "tradeInValue": number | null,
+        "amountFinanced": number | null,
+        "apr": number | null,
+        "termMonths": number | null,
+        "monthlyPayment": number | null
+      },
+      "fees": {
+        "documentationFee": number | null,
+        "salesTax": number | null,
+        "titleAndRegistration": number | null
+      },
+      "tilaDisclosure": {
+        "apr": number | null,
+        "financeCharge": number | null,
+        "amountFinanced": number | null,
+        "totalOfPayments": number | null,
+        "totalSalePrice": number | null
+      } | null
+    }
+    
+    Locations use 1-based page numbers in the order the pages were provided. The box is
+    normalized to the page: x and y are the top-left corner and width and height the size,
+    all as fractions of the page width and height between 0 and 1.
+    
+    Ensure your response is ONLY the JSON object with no additional text.
+  `
+
+const LEASE_PROMPT = `
+    Analyze this car lease contract image in detail.
+    
+    Provide a comprehensive analysis with the following sections:
+    
+    1. CONTRACT TERMS: Extract all key terms from the lease including MSRP, capitalized cost, capitalized cost reduction, residual value, money factor, lease term, monthly payment, acquisition fee, disposition fee, mileage allowance, excess-mileage charge, wear-and-tear provisions and any add-ons. For each term, provide:
+       - The exact value
+       - Whether the term is normal, concerning (warning), or highly concerning (high)
+       - A detailed explanation of why this term is flagged (if applicable)
+       - Where it appears: the page number and the bounding box of the line it is printed on
+       
+    2. POTENTIAL ISSUES: Identify any concerning elements in the lease such as:
+       - A marked-up money factor
+       - A capitalized cost above the negotiated price
+       - Excessive acquisition or disposition fees
+       - A low mileage allowance or high excess-mileage charge
+       - Unfavorable early termination or wear-and-tear clauses
+       - missing information
+       For each issue, provide:
+       - A clear title
+       - A detailed description
+       - The severity (high, warning, or good)
+       - A specific recommendation to address the issue
+       - Where it appears, if it refers to a specific line of the contract
+       
+    3. TRUSTWORTHINESS SCORE: Provide a numerical score from 0-100 representing the overall fairness and transparency of the lease, where:
+       - 0-59: Poor (many concerning terms)
+       - 60-79: Caution (some concerning terms)
+       - 80-100: Good (few or no concerning terms)
+       
+    4. SUMMARY: A concise paragraph summarizing the key findings and recommendations.
+
+    5. LEASE TERMS: The raw figures from the lease as plain numbers (no currency symbols or units),
+       or null when a figure is not present:
+       - capitalizedCost (gross capitalized cost), capCostReduction, residualValue, acquisitionFee,
+         dispositionFee and monthlyPayment (base payment before tax) in dollars
+       - moneyFactor exactly as printed (e.g. 0.00250)
+       - termMonths as the number of monthly payments
+       - mileageAllowance in miles per year and excessMileageRate in dollars per mile
+       Also list the itemized fees under "fees": documentationFee (dealer documentation or
+       processing fee, apart from the acquisition fee), salesTax (tax due at signing) and
+       titleAndRegistration (government title, license and registration fees combined), in
+       dollars or null.
+    
+    Format your response as a JSON object with the following structure:
+    {
+      "contractTerms": [
+        {
+          "term": "string",
+          "value": "string",
+          "flag": "normal|warning|high|good",
+          "details": "string",
+          "location": { "page": number, "x": number, "y": number, "width": number, "height": number } | null
+        }
+      ],
+      "potentialIssues": [
+        {
+          "title": "string",
+          "description": "string",
+          "severity": "high|warning|good",
+          "recommendation": "string",
+          "location": { "page": number, "x": number, "y": number, "width": number, "height": number } | null
+        }
+      ],
+      "trustworthinessScore": number,
+      "summary": "string",
+      "lease": {
+        "capitalizedCost": number | null,
+        "capCostReduction": number | null,
+        "residualValue": number | null,
+        "moneyFactor": number | null,
+        "acquisitionFee": number | null,
+        "dispositionFee": number | null,
+        "mileageAllowance": number | null,
+        "excessMileageRate": number | null,
+        "termMonths": number | null,
+        "monthlyPayment": number | null
+      },
+      "fees": {
+        "documentationFee": number | null,
+        "salesTax": number | null,
+        "titleAndRegistration": number | null
+      }
+    }
+    
+    Locations use 1-based page numbers in the order the pages were provided. The box is
+    normalized to the page: x and y are the top-left corner and width and height the size,
+    all as fractions of the page width and height between 0 and 1.
+    
+    Ensure your response is ONLY the JSON object with no additional text.
+  `
+
+export function buildAnalysisPrompt(contractType: ContractType, pageCount = 1) {
+  const prompt = contractType === "lease" ? LEASE_PROMPT : PURCHASE_PROMPT
+  if (pageCount <= 1) return prompt
+
+  return `
+    The contract is provided as ${pageCount} pages, in order. Treat them as a single document.
+  ${prompt}`
+}
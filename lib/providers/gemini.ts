@@ -0,0 +1,42 @@
+import { GoogleGenerativeAI } from "@google/generative-ai"
+import type { AnalysisRequest, ContractAnalysisProvider } from "./types"
+
+export function createGeminiProvider(options: { apiKey: string; model?: string }): ContractAnalysisProvider {
+  const genAI = new GoogleGenerativeAI(options.apiKey)
+  const modelName = options.model || "gemini-1.5-flash"
+
+  return {
+    id: "gemini",
+    model: modelName,
+    async generate({ prompt, parts, history = [], onText }: AnalysisRequest) {
+      const model = genAI.getGenerativeModel({ model: modelName })
+      const request = {
+        contents: [
+          {
+            role: "user",
+            parts: [
+              { text: prompt },
+              ...parts.map((part) =>
+                part.type === "text" ? { text: part.text } : { inlineData: { data: part.data, mimeType: part.mimeType } },
+              ),
+            ],
+          },
+          ...history.map((turn) => ({ role: turn.role, parts: [{ text: turn.text }] })),
+        ],
+      }
+
+      if (onText) {
+        const result = await model.generateContentStream(request)
+        for await (const chunk of result.stream) {
+          onText(chunk.text())
+        }
+        const response = await result.response
+        return response.text()
+      }
+
+      const result = await model.generateContent(request)
+      const response = await result.response
+      return response.text()
+    },
+  }
+}
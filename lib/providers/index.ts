@@ -0,0 +1,53 @@
+import { createGeminiProvider } from "./gemini"
+import { createMockProvider } from "./mock"
+import { createOllamaProvider } from "./ollama"
+import { createOpenAIProvider } from "./openai"
+import type { ContractAnalysisProvider, ProviderId } from "./types"
+
+export type {
+  AnalysisRequest,
+  AnalysisTask,
+  ContractAnalysisProvider,
+  ConversationTurn,
+  DocumentPart,
+  ProviderId,
+} from "./types"
+
+let cachedProvider: ContractAnalysisProvider | null = null
+
+/**
+ * Builds the provider selected by `ANALYSIS_PROVIDER` (gemini, openai, ollama
+ * or mock, defaulting to gemini). `ANALYSIS_MODEL` overrides the model name.
+ *
+ * - gemini: `GOOGLE_GEMINI_API_KEY`
+ * - openai: `OPENAI_API_KEY`, `OPENAI_BASE_URL`
+ * - ollama: `OLLAMA_BASE_URL`
+ * - mock: `MOCK_ANALYSIS_FIXTURE`
+ */
+export function createProviderFromEnv(env: NodeJS.ProcessEnv = process.env): ContractAnalysisProvider {
+  const id = (env.ANALYSIS_PROVIDER || "gemini").toLowerCase() as ProviderId
+  const model = env.ANALYSIS_MODEL || undefined
+
+  switch (id) {
+    case "gemini":
+      if (!env.GOOGLE_GEMINI_API_KEY) {
+        throw new Error("GOOGLE_GEMINI_API_KEY is not configured")
+      }
+      return createGeminiProvider({ apiKey: env.GOOGLE_GEMINI_API_KEY, model })
+    case "openai":
+      return createOpenAIProvider({ apiKey: env.OPENAI_API_KEY, baseUrl: env.OPENAI_BASE_URL, model })
+    case "ollama":
+      return createOllamaProvider({ baseUrl: env.OLLAMA_BASE_URL, model })
+    case "mock":
+      return createMockProvider({ fixture: env.MOCK_ANALYSIS_FIXTURE })
+    default:
+      throw new Error(`Unknown analysis provider "${id}"`)
+  }
+}
+
+export function getAnalysisProvider(): ContractAnalysisProvider {
+  if (!cachedProvider) {
+    cachedProvider = createProviderFromEnv()
+  }
+  return cachedProvider
+}
@@ -0,0 +1,42 @@
+import lease from "./fixtures/lease.json"
+import retailInstallment from "./fixtures/retail-installment.json"
+import type { AnalysisRequest, ContractAnalysisProvider } from "./types"
+
+/** Size of the chunks the mock streams its fixture in, to exercise partial parsing */
+const STREAM_CHUNK_SIZE = 120
+
+const fixtures: Record<string, { contractType?: string; [key: string]: unknown }> = {
+  lease,
+  "retail-installment": retailInstallment,
+}
+
+/**
+ * Returns a canned analysis without any network access so the upload and
+ * results flow can run in development and CI without an API key.
+ */
+export function createMockProvider(options: { fixture?: string } = {}): ContractAnalysisProvider {
+  const fixtureName = options.fixture || "retail-installment"
+  const fixture = fixtures[fixtureName]
+
+  if (!fixture) {
+    throw new Error(`Unknown mock fixture "${fixtureName}"`)
+  }
+
+  return {
+    id: "mock",
+    model: `fixture:${fixtureName}`,
+    async generate({ task, onText }: AnalysisRequest) {
+      if (task === "detect-contract-type") {
+        return JSON.stringify({ contractType: fixture.contractType ?? "purchase" })
+      }
+
+      const text = JSON.stringify(fixture, null, 2)
+      if (onText) {
+        for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+          onText(text.slice(i, i + STREAM_CHUNK_SIZE))
+        }
+      }
+      return text
+    },
+  }
+}
@@ -0,0 +1,60 @@
+import { readLines } from "./stream"
+import type { AnalysisRequest, ContractAnalysisProvider } from "./types"
+
+/**
+ * Talks to a local Ollama-style server (`POST /api/chat`). Only image and
+ * text parts are supported because these servers have no PDF input.
+ */
+export function createOllamaProvider(options: { baseUrl?: string; model?: string }): ContractAnalysisProvider {
+  const baseUrl = (options.baseUrl || "http://localhost:11434").replace(/\/+$/, "")
+  const modelName = options.model || "llava"
+
+  return {
+    id: "ollama",
+    model: modelName,
+    async generate({ prompt, parts, history = [], onText }: AnalysisRequest) {
+      if (parts.some((part) => part.type === "file" && !part.mimeType.startsWith("image/"))) {
+        throw new Error("The local model only supports image files and PDFs with a text layer")
+      }
+
+      const images = parts.flatMap((part) => (part.type === "file" ? [part.data] : []))
+      const texts = parts.flatMap((part) => (part.type === "text" ? [part.text] : []))
+
+      const response = await fetch(`${baseUrl}/api/chat`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          model: modelName,
+          messages: [
+            { role: "user", content: [prompt, ...texts].join("\n\n"), images },
+            ...history.map((turn) => ({ role: turn.role === "model" ? "assistant" : "user", content: turn.text })),
+          ],
+          format: "json",
+          stream: Boolean(onText),
+        }),
+      })
+
+      if (!response.ok) {
+        throw new Error(`Local model request failed with status ${response.status}`)
+      }
+
+      if (onText && response.body) {
+        let text = ""
+        // One JSON object per line, each carrying the next piece of the message
+        for await (const line of readLines(response.body)) {
+          if (!line.trim()) continue
+
+          const chunk = JSON.parse(line).message?.content ?? ""
+          if (chunk) {
+            text += chunk
+            onText(chunk)
+          }
+        }
+        return text
+      }
+
+      const body = await response.json()
+      return body.message?.content ?? ""
+    },
+  }
+}
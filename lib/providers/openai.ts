@@ -0,0 +1,77 @@
+import { readLines } from "./stream"
+import type { AnalysisRequest, ContractAnalysisProvider, DocumentPart } from "./types"
+
+function toContentPart(part: DocumentPart, index: number) {
+  if (part.type === "text") {
+    return { type: "text", text: part.text }
+  }
+
+  const dataUrl = `data:${part.mimeType};base64,${part.data}`
+
+  if (part.mimeType === "application/pdf") {
+    return { type: "file", file: { filename: `contract-${index + 1}.pdf`, file_data: dataUrl } }
+  }
+
+  return { type: "image_url", image_url: { url: dataUrl } }
+}
+
+/**
+ * Works against any server that implements the OpenAI chat completions API
+ * (OpenAI itself, Azure, OpenRouter, vLLM, LM Studio, ...).
+ */
+export function createOpenAIProvider(options: {
+  apiKey?: string
+  baseUrl?: string
+  model?: string
+}): ContractAnalysisProvider {
+  const baseUrl = (options.baseUrl || "https://api.openai.com/v1").replace(/\/+$/, "")
+  const modelName = options.model || "gpt-4o-mini"
+
+  return {
+    id: "openai",
+    model: modelName,
+    async generate({ prompt, parts, history = [], onText }: AnalysisRequest) {
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: modelName,
+          messages: [
+            { role: "user", content: [{ type: "text", text: prompt }, ...parts.map(toContentPart)] },
+            ...history.map((turn) => ({ role: turn.role === "model" ? "assistant" : "user", content: turn.text })),
+          ],
+          stream: Boolean(onText),
+        }),
+      })
+
+      if (response.status === 429) {
+        throw new Error("OpenAI-compatible provider returned a rate limit error")
+      }
+      if (!response.ok) {
+        throw new Error(`OpenAI-compatible provider request failed with status ${response.status}`)
+      }
+
+      if (onText && response.body) {
+        let text = ""
+        // Server-sent events: `data: {...}` lines, ending with `data: [DONE]`
+        for await (const line of readLines(response.body)) {
+          const data = line.replace(/^data:\s*/, "").trim()
+          if (!line.startsWith("data:") || data === "[DONE]") continue
+
+          const chunk = JSON.parse(data).choices?.[0]?.delta?.content ?? ""
+          if (chunk) {
+            text += chunk
+            onText(chunk)
+          }
+        }
+        return text
+      }
+
+      const body = await response.json()
+      return body.choices?.[0]?.message?.content ?? ""
+    },
+  }
+}
@@ -0,0 +1,19 @@
+/** Splits a streaming HTTP body into lines as they arrive */
+export async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ""
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += value
+    const lines = buffer.split("\n")
+    buffer = lines.pop() ?? ""
+    yield* lines
+  }
+
+  if (buffer) {
+    yield buffer
+  }
+}
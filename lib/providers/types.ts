@@ -0,0 +1,40 @@
+export type DocumentPart =
+  | {
+      type: "file"
+      /** Base64-encoded file contents */
+      data: string
+      mimeType: string
+    }
+  | {
+      type: "text"
+      /** Text already extracted from the document, e.g. a PDF text layer */
+      text: string
+    }
+
+export interface ConversationTurn {
+  role: "user" | "model"
+  text: string
+}
+
+/** What a request asks the model to do, so providers such as the mock can answer accordingly */
+export type AnalysisTask = "detect-contract-type" | "analyze-contract"
+
+export interface AnalysisRequest {
+  task: AnalysisTask
+  prompt: string
+  parts: DocumentPart[]
+  /** Follow-up turns after the initial prompt, e.g. a previous answer and a request to correct it */
+  history?: ConversationTurn[]
+  /** When set, providers stream the response and call this with each chunk of text as it arrives */
+  onText?: (chunk: string) => void
+}
+
+export interface ContractAnalysisProvider {
+  /** Stable identifier such as "gemini" or "mock" */
+  readonly id: string
+  readonly model: string
+  /** Sends the prompt and document parts to the model and returns its raw text response */
+  generate(request: AnalysisRequest): Promise<string>
+}
+
+export type ProviderId = "gemini" | "openai" | "ollama" | "mock"
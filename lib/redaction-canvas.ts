@@ -0,0 +1,104 @@
+import type { PDFDocumentProxy } from "unpdf/pdfjs"
+import { loadImage } from "@/lib/image-canvas"
+import { openPdf, renderPdfPage } from "@/lib/pdf-client"
+import type { RedactionBox, TextBox } from "@/lib/redaction"
+
+/** Redacted PDF pages are rasterized at 144 dpi, enough for the model to read small print */
+const PDF_RASTER_SCALE = 2
+
+const redactedName = (name: string, extension: string) => `${name.replace(/\.[^.]+$/, "")}-redacted.${extension}`
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string) {
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("The redacted page could not be saved"))), type, 0.92)
+  })
+}
+
+/** Paints the boxes solid black, padded by a pixel so anti-aliased edges don't leave traces of the text */
+function burnRedactions(canvas: HTMLCanvasElement, boxes: RedactionBox[]) {
+  const context = canvas.getContext("2d")
+  if (!context) throw new Error("Redaction is not supported in this browser")
+
+  context.fillStyle = "#000000"
+  for (const box of boxes) {
+    const left = Math.floor(box.x * canvas.width) - 1
+    const top = Math.floor(box.y * canvas.height) - 1
+    const right = Math.ceil((box.x + box.width) * canvas.width) + 1
+    const bottom = Math.ceil((box.y + box.height) * canvas.height) + 1
+    context.fillRect(left, top, right - left, bottom - top)
+  }
+}
+
+/** Text runs of one page with their boxes normalized to the page, for auto-detection */
+export async function extractTextBoxes(pdf: PDFDocumentProxy, pageNumber: number): Promise<TextBox[]> {
+  const page = await pdf.getPage(pageNumber)
+  const viewport = page.getViewport({ scale: 1 })
+  const content = await page.getTextContent()
+
+  return content.items.flatMap((item) => {
+    if (!("str" in item) || item.str.trim().length === 0) return []
+
+    const [, , c, d, e, f] = item.transform as number[]
+    const fontHeight = Math.hypot(c, d)
+    // The transform places the baseline; descenders reach about a quarter of the font size below it
+    const [x1, y1] = viewport.convertToViewportPoint(e, f + fontHeight)
+    const [x2, y2] = viewport.convertToViewportPoint(e + item.width, f - fontHeight / 4)
+    return {
+      text: item.str,
+      x: Math.min(x1, x2) / viewport.width,
+      y: Math.min(y1, y2) / viewport.height,
+      width: Math.abs(x2 - x1) / viewport.width,
+      height: Math.abs(y2 - y1) / viewport.height,
+    }
+  })
+}
+
+export async function redactImage(preview: string, file: File, boxes: RedactionBox[]) {
+  const image = await loadImage(preview)
+  const canvas = document.createElement("canvas")
+  canvas.width = image.naturalWidth
+  canvas.height = image.naturalHeight
+  canvas.getContext("2d")?.drawImage(image, 0, 0)
+  burnRedactions(canvas, boxes)
+
+  const type = file.type === "image/png" ? "image/png" : "image/jpeg"
+  const blob = await canvasToBlob(canvas, type)
+  return {
+    file: new File([blob], redactedName(file.name, type === "image/png" ? "png" : "jpg"), { type }),
+    preview: canvas.toDataURL(type),
+  }
+}
+
+/**
+ * Rebuilds the PDF with every page that has a redaction replaced by a flattened image of it, so
+ * the covered text is gone from the file rather than hidden under a box. Other pages are copied
+ * as they are and keep their text layer.
+ */
+export async function redactPdf(file: File, boxes: RedactionBox[]) {
+  const [{ PDFDocument }, pdf] = await Promise.all([import("pdf-lib"), openPdf(file)])
+
+  try {
+    const original = await PDFDocument.load(await file.arrayBuffer())
+    const output = await PDFDocument.create()
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const pageBoxes = boxes.filter((box) => box.page === pageNumber)
+      if (pageBoxes.length === 0) {
+        const [copied] = await output.copyPages(original, [pageNumber - 1])
+        output.addPage(copied)
+        continue
+      }
+
+      const size = (await pdf.getPage(pageNumber)).getViewport({ scale: 1 })
+      const canvas = await renderPdfPage(pdf, pageNumber, PDF_RASTER_SCALE)
+      burnRedactions(canvas, pageBoxes)
+
+      const image = await output.embedJpg(await (await canvasToBlob(canvas, "image/jpeg")).arrayBuffer())
+      output.addPage([size.width, size.height]).drawImage(image, { x: 0, y: 0, width: size.width, height: size.height })
+    }
+
+    return new File([await output.save()], redactedName(file.name, "pdf"), { type: "application/pdf" })
+  } finally {
+    pdf.destroy()
+  }
+}
@@ -0,0 +1,46 @@
+import type { SourceLocation } from "@/lib/analysis-schema"
+import { findPii, PII_LABELS, type PiiKind } from "@/lib/pii"
+
+/** A black-out box on one page of an upload, in the same normalized coordinates as source locations */
+export interface RedactionBox extends SourceLocation {
+  id: string
+  /** Set when the box came from auto-detection rather than being drawn by hand */
+  detected?: PiiKind
+}
+
+/** A run of text from a PDF text layer and where it is printed, normalized to the page */
+export interface TextBox {
+  text: string
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/** Boxes never shrink below this, so a detected number is fully covered even if the font metrics are off */
+const MIN_BOX_SIZE = 0.004
+
+export const REDACTABLE_PII: PiiKind[] = ["ssn", "account-number"]
+
+/** Boxes covering the SSNs and account numbers found in a page's text layer */
+export function detectRedactions(items: TextBox[], page: number): RedactionBox[] {
+  return items.flatMap((item, index) =>
+    findPii(item.text, REDACTABLE_PII).map((match, matchIndex) => {
+      // Text items carry one box for the whole run, so estimate the match's share of it by characters
+      const charWidth = item.width / Math.max(item.text.length, 1)
+      return {
+        id: `detected-${page}-${index}-${matchIndex}`,
+        page,
+        x: item.x + match.start * charWidth,
+        y: item.y,
+        width: Math.max((match.end - match.start) * charWidth, MIN_BOX_SIZE),
+        height: Math.max(item.height, MIN_BOX_SIZE),
+        detected: match.kind,
+      }
+    }),
+  )
+}
+
+export function describeRedaction(box: RedactionBox) {
+  return box.detected ? PII_LABELS[box.detected] : "Drawn box"
+}
@@ -0,0 +1,366 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFImage, type PDFPage, type RGB } from "pdf-lib"
+import type { AnalysisMeta } from "@/lib/analysis-pipeline"
+import type { AnalysisResults, IssueSeverity, TermFlag } from "@/lib/analysis-schema"
+import { scoreContract } from "@/lib/scoring"
+
+export interface ReportInput {
+  name: string
+  results: AnalysisResults
+  meta?: AnalysisMeta | null
+  /** JPEG or PNG bytes of the first contract page */
+  thumbnail?: { bytes: Uint8Array; type: "image/jpeg" | "image/png" } | null
+  generatedAt?: Date
+}
+
+const PAGE_WIDTH = 612
+const PAGE_HEIGHT = 792
+const MARGIN = 50
+const HEADER_HEIGHT = 36
+const FOOTER_HEIGHT = 30
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+const CONTENT_TOP = PAGE_HEIGHT - MARGIN - HEADER_HEIGHT
+const CONTENT_BOTTOM = MARGIN + FOOTER_HEIGHT
+const THUMBNAIL_WIDTH = 140
+const THUMBNAIL_MAX_HEIGHT = 190
+
+const BRAND = rgb(0.07, 0.2, 0.4)
+const TEXT = rgb(0.12, 0.12, 0.14)
+const MUTED = rgb(0.42, 0.44, 0.48)
+const RULE = rgb(0.85, 0.86, 0.88)
+
+const SEVERITY_STYLES: Record<IssueSeverity | TermFlag, { label: string; color: RGB }> = {
+  high: { label: "High concern", color: rgb(0.75, 0.13, 0.13) },
+  warning: { label: "Caution", color: rgb(0.76, 0.5, 0) },
+  good: { label: "Favorable", color: rgb(0.1, 0.5, 0.24) },
+  normal: { label: "Normal", color: MUTED },
+}
+
+const SOURCE_LABELS = { model: "AI review", computed: "Computed check", rules: "State rule" }
+
+const DISCLAIMER = "This report is informational and is not legal or financial advice."
+
+/** Characters outside the Windows-1252 set the standard fonts can encode */
+const WIN_ANSI_EXTRAS = new Set("€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ")
+const REPLACEMENTS: Record<string, string> = { "≤": "<=", "≥": ">=", "≈": "~", "→": "->", "×": "x", "\t": " " }
+
+/** Swaps characters Helvetica cannot draw for close equivalents, or drops them, so pdf-lib doesn't throw */
+export function toWinAnsi(text: string) {
+  return Array.from(text.replace(/\r\n?/g, "\n"), (char) => {
+    const code = char.charCodeAt(0)
+    const printable = (code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)
+    if (char === "\n" || printable || WIN_ANSI_EXTRAS.has(char)) return char
+    return REPLACEMENTS[char] ?? ""
+  }).join("")
+}
+
+function wrapText(text: string, font: PDFFont, size: number, width: number) {
+  const lines: string[] = []
+  for (const paragraph of toWinAnsi(text).split("\n")) {
+    let line = ""
+    for (const word of paragraph.split(/ +/)) {
+      const candidate = line ? `${line} ${word}` : word
+      if (line && font.widthOfTextAtSize(candidate, size) > width) {
+        lines.push(line)
+        line = word
+      } else {
+        line = candidate
+      }
+    }
+    lines.push(line)
+  }
+  return lines
+}
+
+function truncateToWidth(text: string, font: PDFFont, size: number, width: number) {
+  let result = toWinAnsi(text)
+  if (font.widthOfTextAtSize(result, size) <= width) return result
+  while (result && font.widthOfTextAtSize(`${result}…`, size) > width) {
+    result = result.slice(0, -1)
+  }
+  return `${result}…`
+}
+
+interface Fonts {
+  regular: PDFFont
+  bold: PDFFont
+}
+
+/** Writes top to bottom, starting a new page whenever the next block would not fit */
+function createWriter(doc: PDFDocument, fonts: Fonts) {
+  let page: PDFPage = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+  let y = CONTENT_TOP
+
+  const ensureSpace = (height: number) => {
+    if (y - height < CONTENT_BOTTOM) {
+      page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+      y = CONTENT_TOP
+    }
+  }
+
+  const text = (
+    value: string,
+    options: { size?: number; bold?: boolean; color?: RGB; x?: number; width?: number; gap?: number } = {},
+  ) => {
+    const { size = 10, bold = false, color = TEXT, x = MARGIN, width = CONTENT_WIDTH - (x - MARGIN), gap = 4 } = options
+    const font = bold ? fonts.bold : fonts.regular
+    const lineHeight = size * 1.3
+    for (const line of wrapText(value, font, size, width)) {
+      ensureSpace(lineHeight)
+      page.drawText(line, { x, y: y - size, size, font, color })
+      y -= lineHeight
+    }
+    y -= gap
+  }
+
+  const heading = (value: string) => {
+    // Keep a heading with at least a few lines of what follows it
+    ensureSpace(80)
+    y -= 10
+    text(value, { size: 14, bold: true, color: BRAND, gap: 2 })
+    page.drawLine({ start: { x: MARGIN, y }, end: { x: MARGIN + CONTENT_WIDTH, y }, thickness: 1, color: BRAND })
+    y -= 10
+  }
+
+  const divider = () => {
+    ensureSpace(10)
+    page.drawLine({
+      start: { x: MARGIN, y: y - 2 },
+      end: { x: MARGIN + CONTENT_WIDTH, y: y - 2 },
+      thickness: 0.5,
+      color: RULE,
+    })
+    y -= 10
+  }
+
+  /** Draws a single line level with the top of the current row, right-aligned to the margin, without moving down */
+  const aside = (value: string, rowTop: number, options: { size?: number; bold?: boolean; color?: RGB } = {}) => {
+    const { size = 10, bold = false, color = TEXT } = options
+    const font = bold ? fonts.bold : fonts.regular
+    const line = toWinAnsi(value)
+    page.drawText(line, {
+      x: MARGIN + CONTENT_WIDTH - font.widthOfTextAtSize(line, size),
+      y: rowTop - size,
+      size,
+      font,
+      color,
+    })
+  }
+
+  return {
+    text,
+    heading,
+    divider,
+    aside,
+    ensureSpace,
+    get page() {
+      return page
+    },
+    get y() {
+      return y
+    },
+    set y(value: number) {
+      y = value
+    },
+  }
+}
+
+type Writer = ReturnType<typeof createWriter>
+
+function scoreBand(score: number) {
+  if (score >= 80) return { label: "Good", color: SEVERITY_STYLES.good.color }
+  if (score >= 60) return { label: "Caution", color: SEVERITY_STYLES.warning.color }
+  return { label: "Poor", color: SEVERITY_STYLES.high.color }
+}
+
+function drawOverview(writer: Writer, input: ReportInput, fonts: Fonts, thumbnail: PDFImage | null) {
+  const { results } = input
+  const firstPage = writer.page
+  const top = writer.y
+  const textWidth = thumbnail ? CONTENT_WIDTH - THUMBNAIL_WIDTH - 20 : CONTENT_WIDTH
+
+  writer.text(input.name, { size: 20, bold: true, width: textWidth })
+  writer.text(
+    [
+      results.contractType === "lease" ? "Lease" : "Purchase",
+      `Generated ${(input.generatedAt ?? new Date()).toLocaleDateString("en-US", { dateStyle: "long" })}`,
+      input.meta ? `Analyzed by ${input.meta.model}` : null,
+    ]
+      .filter(Boolean)
+      .join("  ·  "),
+    { color: MUTED, width: textWidth, gap: 12 },
+  )
+
+  const band = scoreBand(results.trustworthinessScore)
+  writer.page.drawText(String(results.trustworthinessScore), {
+    x: MARGIN,
+    y: writer.y - 40,
+    size: 44,
+    font: fonts.bold,
+    color: band.color,
+  })
+  writer.page.drawText(`/ 100  ${band.label}`, {
+    x: MARGIN + fonts.bold.widthOfTextAtSize(String(results.trustworthinessScore), 44) + 8,
+    y: writer.y - 40,
+    size: 14,
+    font: fonts.regular,
+    color: band.color,
+  })
+  writer.y -= 56
+  writer.text("Trustworthiness score", { size: 9, color: MUTED, width: textWidth, gap: 12 })
+
+  writer.text(results.summary, { width: textWidth })
+
+  if (thumbnail) {
+    const { width, height } = thumbnail.scaleToFit(THUMBNAIL_WIDTH, THUMBNAIL_MAX_HEIGHT)
+    const x = MARGIN + CONTENT_WIDTH - width
+    firstPage.drawImage(thumbnail, { x, y: top - height, width, height })
+    firstPage.drawRectangle({ x, y: top - height, width, height, borderColor: RULE, borderWidth: 1 })
+    if (writer.page === firstPage) {
+      writer.y = Math.min(writer.y, top - height - 12)
+    }
+  }
+}
+
+function drawScoreBreakdown(writer: Writer, results: AnalysisResults) {
+  writer.heading("Score breakdown")
+  const barX = MARGIN + 170
+  const barWidth = CONTENT_WIDTH - 170 - 70
+
+  for (const component of scoreContract(results).components) {
+    writer.ensureSpace(40)
+    const rowTop = writer.y
+    writer.text(component.label, { bold: true, width: 160, gap: 0 })
+    writer.page.drawRectangle({ x: barX, y: rowTop - 9, width: barWidth, height: 8, color: RULE })
+    writer.page.drawRectangle({
+      x: barX,
+      y: rowTop - 9,
+      width: (component.points / component.weight) * barWidth,
+      height: 8,
+      color: BRAND,
+    })
+    writer.aside(`${component.points} / ${component.weight}`, rowTop)
+    writer.text(component.detail, { size: 9, color: MUTED, gap: 2 })
+    for (const issue of component.issues) {
+      writer.text(`•  ${issue.title}`, {
+        size: 9,
+        color: SEVERITY_STYLES[issue.severity].color,
+        x: MARGIN + 12,
+        gap: 0,
+      })
+    }
+    writer.y -= 8
+  }
+}
+
+function drawTerms(writer: Writer, results: AnalysisResults) {
+  writer.heading("Contract terms")
+  results.contractTerms.forEach((term, index) => {
+    if (index > 0) writer.divider()
+    writer.ensureSpace(30)
+    const style = SEVERITY_STYLES[term.flag]
+    const rowTop = writer.y
+    writer.text(term.term, { bold: true, width: CONTENT_WIDTH - 110, gap: 0 })
+    writer.aside(style.label, rowTop, { size: 9, bold: true, color: style.color })
+    const value = term.userEdited ? `${term.value}  (corrected by the user, read as ${term.originalValue})` : term.value
+    writer.text(value, { gap: 2 })
+    if (term.details) writer.text(term.details, { size: 9, color: MUTED, gap: 2 })
+  })
+}
+
+function drawIssues(writer: Writer, results: AnalysisResults) {
+  writer.heading("Issues")
+  if (results.potentialIssues.length === 0) {
+    writer.text("No issues were found.", { color: MUTED })
+    return
+  }
+
+  results.potentialIssues.forEach((issue, index) => {
+    if (index > 0) writer.divider()
+    writer.ensureSpace(40)
+    const style = SEVERITY_STYLES[issue.severity]
+    writer.text(`${style.label.toUpperCase()}  ·  ${SOURCE_LABELS[issue.source]}`, {
+      size: 8,
+      bold: true,
+      color: style.color,
+      gap: 1,
+    })
+    writer.text(issue.title, { bold: true, gap: 2 })
+    writer.text(issue.description, { gap: 2 })
+    if (issue.recommendation) writer.text(`Recommendation: ${issue.recommendation}`, { color: BRAND, gap: 2 })
+    if (issue.citation) {
+      writer.text(`Source: ${issue.citation.label} (rules v${issue.citation.rulesVersion})`, { size: 8, color: MUTED })
+    }
+  })
+}
+
+/** Draws the brand header and page numbers once every page exists */
+function drawPageChrome(doc: PDFDocument, fonts: Fonts, name: string) {
+  const pages = doc.getPages()
+  pages.forEach((page, index) => {
+    const headerY = PAGE_HEIGHT - MARGIN - 14
+    page.drawRectangle({ x: MARGIN, y: headerY - 8, width: 4, height: 22, color: BRAND })
+    page.drawText("AutoTruth", { x: MARGIN + 12, y: headerY, size: 14, font: fonts.bold, color: BRAND })
+    page.drawText("Contract Analysis Report", {
+      x: MARGIN + 12 + fonts.bold.widthOfTextAtSize("AutoTruth", 14) + 6,
+      y: headerY,
+      size: 11,
+      font: fonts.regular,
+      color: MUTED,
+    })
+    const title = truncateToWidth(name, fonts.regular, 9, 200)
+    page.drawText(title, {
+      x: MARGIN + CONTENT_WIDTH - fonts.regular.widthOfTextAtSize(title, 9),
+      y: headerY,
+      size: 9,
+      font: fonts.regular,
+      color: MUTED,
+    })
+
+    page.drawLine({
+      start: { x: MARGIN, y: MARGIN + 18 },
+      end: { x: MARGIN + CONTENT_WIDTH, y: MARGIN + 18 },
+      thickness: 0.5,
+      color: RULE,
+    })
+    page.drawText(DISCLAIMER, { x: MARGIN, y: MARGIN + 4, size: 8, font: fonts.regular, color: MUTED })
+    const number = `Page ${index + 1} of ${pages.length}`
+    page.drawText(number, {
+      x: MARGIN + CONTENT_WIDTH - fonts.regular.widthOfTextAtSize(number, 8),
+      y: MARGIN + 4,
+      size: 8,
+      font: fonts.regular,
+      color: MUTED,
+    })
+  })
+}
+
+/**
+ * Renders the analysis as a paginated, print-ready PDF: an overview with the
+ * score and a thumbnail of the contract, the score breakdown, every term with
+ * its flag and every issue with its recommendation.
+ */
+export async function renderAnalysisReport(input: ReportInput): Promise<Uint8Array> {
+  const doc = await PDFDocument.create()
+  doc.setTitle(`${toWinAnsi(input.name)} - AutoTruth report`)
+  doc.setProducer("AutoTruth")
+  doc.setCreationDate(input.generatedAt ?? new Date())
+
+  const fonts = {
+    regular: await doc.embedFont(StandardFonts.Helvetica),
+    bold: await doc.embedFont(StandardFonts.HelveticaBold),
+  }
+  const thumbnail = input.thumbnail
+    ? input.thumbnail.type === "image/png"
+      ? await doc.embedPng(input.thumbnail.bytes)
+      : await doc.embedJpg(input.thumbnail.bytes)
+    : null
+
+  const writer = createWriter(doc, fonts)
+  drawOverview(writer, input, fonts, thumbnail)
+  drawScoreBreakdown(writer, input.results)
+  drawTerms(writer, input.results)
+  drawIssues(writer, input.results)
+  drawPageChrome(doc, fonts, input.name)
+
+  return doc.save()
+}
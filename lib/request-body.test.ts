@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest"
+import { readBodyBytes, readFormDataBody, readJsonBody } from "./request-body"
+
+const post = (body: BodyInit, headers: Record<string, string> = {}) =>
+  new Request("http://localhost/", { method: "POST", body, headers })
+
+/** A body sent without a content-length, as chunked uploads are */
+const streamed = (chunks: string[]) =>
+  new Request("http://localhost/", {
+    method: "POST",
+    body: new ReadableStream({
+      start(controller) {
+        for (const chunk of chunks) controller.enqueue(new TextEncoder().encode(chunk))
+        controller.close()
+      },
+    }),
+    duplex: "half",
+  } as RequestInit)
+
+describe("readBodyBytes", () => {
+  it("reads a body within the limit", async () => {
+    expect(Buffer.from((await readBodyBytes(post("hello"), 5))!).toString()).toBe("hello")
+  })
+
+  it("refuses a body that declares a larger length", async () => {
+    expect(await readBodyBytes(post("hello", { "content-length": "1000" }), 10)).toBeNull()
+  })
+
+  it("stops reading a streamed body once it passes the limit", async () => {
+    expect(await readBodyBytes(streamed(["12345", "67890", "abc"]), 8)).toBeNull()
+  })
+})
+
+describe("readJsonBody", () => {
+  it("parses JSON", async () => {
+    expect(await readJsonBody(post('{"a":1}'))).toEqual({ a: 1 })
+  })
+
+  it("resolves to null for invalid or oversized JSON", async () => {
+    expect(await readJsonBody(post("{"))).toBeNull()
+    expect(await readJsonBody(post(JSON.stringify({ a: "x".repeat(100) })), 50)).toBeNull()
+  })
+})
+
+describe("readFormDataBody", () => {
+  it("parses a multipart body", async () => {
+    const form = new FormData()
+    form.append("state", "CA")
+    form.append("files", new File(["%PDF"], "page.pdf", { type: "application/pdf" }))
+    const request = post(form)
+    const parsed = await readFormDataBody(request, 10_000)
+
+    expect(parsed?.get("state")).toBe("CA")
+    expect((parsed?.get("files") as File).name).toBe("page.pdf")
+  })
+
+  it("resolves to null for an oversized body", async () => {
+    const form = new FormData()
+    form.append("files", new File(["x".repeat(2000)], "page.pdf", { type: "application/pdf" }))
+    expect(await readFormDataBody(post(form), 1000)).toBeNull()
+  })
+
+  it("rejects a body that is not multipart", async () => {
+    await expect(
+      readFormDataBody(post("not a form", { "content-type": "multipart/form-data; boundary=x" }), 1000),
+    ).rejects.toThrow()
+  })
+})
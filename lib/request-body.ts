@@ -0,0 +1,50 @@
+/** Largest JSON body the app's own routes read; an analysis with its thumbnail is far smaller */
+export const MAX_JSON_BODY_BYTES = 1024 * 1024
+
+/**
+ * Reads a request body, giving up as soon as it exceeds `limit` bytes.
+ * Resolves to null when the body is larger, whatever length it declared.
+ */
+export async function readBodyBytes(request: Request, limit: number): Promise<Uint8Array | null> {
+  if (Number(request.headers.get("content-length")) > limit) return null
+
+  const reader = request.body?.getReader()
+  if (!reader) return new Uint8Array()
+
+  const chunks: Uint8Array[] = []
+  let size = 0
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.byteLength
+    if (size > limit) {
+      await reader.cancel()
+      return null
+    }
+    chunks.push(value)
+  }
+  return Buffer.concat(chunks)
+}
+
+/** Parses a JSON body of at most `limit` bytes, resolving to null when it is larger or is not JSON */
+export async function readJsonBody(request: Request, limit = MAX_JSON_BODY_BYTES): Promise<unknown> {
+  const bytes = await readBodyBytes(request, limit)
+  if (!bytes) return null
+
+  try {
+    return JSON.parse(Buffer.from(bytes).toString("utf8"))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Parses a multipart or urlencoded body of at most `limit` bytes. Resolves to
+ * null when it is larger, and rejects when it cannot be parsed.
+ */
+export async function readFormDataBody(request: Request, limit: number): Promise<FormData | null> {
+  const bytes = await readBodyBytes(request, limit)
+  if (!bytes) return null
+
+  return new Response(bytes, { headers: { "Content-Type": request.headers.get("content-type") ?? "" } }).formData()
+}
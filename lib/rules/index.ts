@@ -0,0 +1,107 @@
+import type { AnalysisResults, PotentialIssue } from "@/lib/analysis-schema"
+import { formatCurrency, roundCents } from "@/lib/finance"
+import stateRules from "./state-rules.json"
+
+/** Effective sales tax rates this far above the state maximum are flagged */
+const SALES_TAX_TOLERANCE = 0.5
+
+export interface StateRuleSet {
+  name: string
+  docFee: { type: "cap" | "presumptive" | "none"; amount?: number; citation: string }
+  salesTax: { maxRate: number; tradeInCredit: boolean; citation: string }
+  /** The most title and registration usually cost; anything above it is flagged */
+  titleAndRegistration: { max: number; citation: string }
+}
+
+export const RULES_VERSION = stateRules.version
+
+const rulesByState = stateRules.states as Record<string, StateRuleSet>
+
+export const supportedStates = Object.entries(rulesByState)
+  .map(([code, rules]) => ({ code, name: rules.name }))
+  .sort((a, b) => a.name.localeCompare(b.name))
+
+export function getStateRules(stateCode: string): StateRuleSet | null {
+  return rulesByState[stateCode.toUpperCase()] ?? null
+}
+
+function citation(stateCode: string, rule: string, label: string) {
+  return { ruleId: `${stateCode}.${rule}`, label, rulesVersion: RULES_VERSION }
+}
+
+/**
+ * Evaluates the extracted fees against the rule entries for one state. Every
+ * issue carries a citation to the rule entry it was checked against.
+ */
+export function evaluateStateRules(results: AnalysisResults, stateCode: string): PotentialIssue[] {
+  const code = stateCode.toUpperCase()
+  const rules = getStateRules(code)
+  if (!rules) return []
+
+  const issues: PotentialIssue[] = []
+  const fees = results.fees
+  const documentationFee = fees?.documentationFee
+
+  if (documentationFee != null && rules.docFee.amount != null) {
+    const { type, amount, citation: label } = rules.docFee
+    if (documentationFee > amount) {
+      issues.push({
+        title:
+          type === "cap"
+            ? `Documentation fee exceeds the ${rules.name} limit`
+            : `Documentation fee is above what ${rules.name} presumes reasonable`,
+        description: `The contract charges ${formatCurrency(documentationFee)} for documentation, but ${rules.name} ${
+          type === "cap" ? "caps this fee at" : "only presumes fees up to"
+        } ${formatCurrency(amount)}.`,
+        severity: type === "cap" ? "high" : "warning",
+        recommendation:
+          type === "cap"
+            ? `Ask the dealer to reduce the documentation fee to ${formatCurrency(amount)} or less.`
+            : "Ask the dealer to justify the documentation fee or reduce it.",
+        source: "rules",
+        citation: citation(code, "docFee", label),
+      })
+    } else {
+      issues.push({
+        title: "Documentation fee is within state limits",
+        description: `The ${formatCurrency(documentationFee)} documentation fee does not exceed the ${formatCurrency(amount)} allowed in ${rules.name}.`,
+        severity: "good",
+        source: "rules",
+        citation: citation(code, "docFee", label),
+      })
+    }
+  }
+
+  const purchasePrice = results.financials?.purchasePrice
+  const salesTax = fees?.salesTax
+  if (salesTax != null && purchasePrice != null && purchasePrice > 0) {
+    const tradeIn = rules.salesTax.tradeInCredit ? (results.financials?.tradeInValue ?? 0) : 0
+    const taxableAmount = purchasePrice - tradeIn
+    const effectiveRate = taxableAmount > 0 ? (salesTax / taxableAmount) * 100 : 0
+
+    if (effectiveRate > rules.salesTax.maxRate + SALES_TAX_TOLERANCE) {
+      issues.push({
+        title: "Sales tax is higher than state rates allow",
+        description: `The ${formatCurrency(salesTax)} in sales tax is ${effectiveRate.toFixed(2)}% of the ${formatCurrency(roundCents(taxableAmount))} taxable amount, above the highest combined rate of ${rules.salesTax.maxRate}% in ${rules.name}.`,
+        severity: "warning",
+        recommendation: "Ask the dealer how the sales tax was calculated and which fees were included in the taxable amount.",
+        source: "rules",
+        citation: citation(code, "salesTax", rules.salesTax.citation),
+      })
+    }
+  }
+
+  const titleAndRegistration = fees?.titleAndRegistration
+  if (titleAndRegistration != null && titleAndRegistration > rules.titleAndRegistration.max) {
+    issues.push({
+      title: "Title and registration fees look high",
+      description: `The contract charges ${formatCurrency(titleAndRegistration)} for title and registration, more than the ${formatCurrency(rules.titleAndRegistration.max)} they typically cost in ${rules.name}.`,
+      severity: "warning",
+      recommendation: "Ask for the itemized government fees; any amount above them is a dealer charge you can negotiate.",
+      source: "rules",
+      citation: citation(code, "titleAndRegistration", rules.titleAndRegistration.citation),
+    })
+  }
+
+  return issues
+}
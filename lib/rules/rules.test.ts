@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest"
+import { analysisResultsSchema, type AnalysisResults } from "@/lib/analysis-schema"
+import lease from "@/lib/providers/fixtures/lease.json"
+import retail from "@/lib/providers/fixtures/retail-installment.json"
+import { evaluateStateRules } from "./index"
+
+const purchase = analysisResultsSchema.parse(retail)
+
+const withFees = (results: AnalysisResults, fees: Partial<NonNullable<AnalysisResults["fees"]>>): AnalysisResults => ({
+  ...results,
+  fees: { documentationFee: null, salesTax: null, titleAndRegistration: null, ...fees },
+})
+
+const ruleIds = (results: AnalysisResults, state: string) =>
+  evaluateStateRules(results, state)
+    .filter((issue) => issue.severity !== "good")
+    .map((issue) => issue.citation?.ruleId)
+
+describe("evaluateStateRules", () => {
+  it("flags a documentation fee above a state cap and cites the rule", () => {
+    expect(ruleIds(withFees(purchase, { documentationFee: 499 }), "ca")).toEqual(["CA.docFee"])
+    expect(ruleIds(withFees(purchase, { documentationFee: 85 }), "CA")).toEqual([])
+  })
+
+  it("flags sales tax above the highest combined rate", () => {
+    const price = purchase.financials!.purchasePrice!
+    expect(ruleIds(withFees(purchase, { salesTax: price * 0.2 }), "CA")).toEqual(["CA.salesTax"])
+    expect(ruleIds(withFees(purchase, { salesTax: price * 0.09 }), "CA")).toEqual([])
+  })
+
+  it("flags title and registration above what they typically cost", () => {
+    expect(ruleIds(withFees(purchase, { titleAndRegistration: 5000 }), "CA")).toEqual(["CA.titleAndRegistration"])
+  })
+
+  it("checks the fees of a lease too", () => {
+    const leased = withFees(analysisResultsSchema.parse(lease), { documentationFee: 499 })
+    expect(ruleIds(leased, "CA")).toEqual(["CA.docFee"])
+  })
+
+  it("has no rules for unknown states", () => {
+    expect(evaluateStateRules(purchase, "ZZ")).toEqual([])
+  })
+})
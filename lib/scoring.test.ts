@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest"
+import { analysisResultsSchema, type AnalysisResults, type PotentialIssue } from "@/lib/analysis-schema"
+import { applyComputedChecks } from "@/lib/computed-checks"
+import lease from "@/lib/providers/fixtures/lease.json"
+import retail from "@/lib/providers/fixtures/retail-installment.json"
+import { issueComponent, scoreContract } from "./scoring"
+
+const component = (results: AnalysisResults, id: string) =>
+  scoreContract(results).components.find((entry) => entry.id === id)!
+
+const issue = (title: string, source: PotentialIssue["source"], severity: PotentialIssue["severity"] = "warning") => ({
+  title,
+  description: "",
+  severity,
+  source,
+})
+
+const withIssues = (issues: PotentialIssue[]): AnalysisResults => ({
+  ...analysisResultsSchema.parse(lease),
+  potentialIssues: issues,
+})
+
+describe("scoreContract", () => {
+  it("scores the fixtures with the rubric", () => {
+    expect(applyComputedChecks(analysisResultsSchema.parse(retail), { state: "CA" }).trustworthinessScore).toBe(41)
+    expect(applyComputedChecks(analysisResultsSchema.parse(lease), { state: "CA" }).trustworthinessScore).toBe(80)
+  })
+
+  it("deducts a finding the model and the state rules both raise once", () => {
+    const fees = component(
+      withIssues([
+        issue("High documentation fee", "model", "high"),
+        issue("Documentation fee exceeds the California limit", "rules", "high"),
+      ]),
+      "fee-load",
+    )
+    expect(fees.issues.map((entry) => entry.source)).toEqual(["rules"])
+  })
+
+  it("keeps the model's other findings in a component a check flagged", () => {
+    const disclosure = component(
+      withIssues([
+        issue("Disclosed APR does not match the payments", "computed", "high"),
+        issue("Prepayment penalty is not disclosed", "model"),
+      ]),
+      "disclosure-completeness",
+    )
+    expect(disclosure.issues).toHaveLength(2)
+  })
+
+  it("keeps the model's finding when the check found nothing wrong", () => {
+    const fees = component(
+      withIssues([
+        issue("Documentation fee is within state limits", "rules", "good"),
+        issue("High documentation fee", "model"),
+      ]),
+      "fee-load",
+    )
+    expect(fees.issues.map((entry) => entry.source)).toEqual(["rules", "model"])
+  })
+})
+
+describe("issueComponent", () => {
+  it.each([
+    ["Interest rate is marked up", "rate-fairness"],
+    ["APR above market", "rate-fairness"],
+    ["Figures are accurate on a separate page", "risky-clauses"],
+    ["Corporate fleet vehicle", "risky-clauses"],
+    ["Mandatory arbitration clause", "risky-clauses"],
+    ["GAP insurance included", "add-on-load"],
+  ])("assigns %s to %s", (title, expected) => {
+    expect(issueComponent(issue(title, "model"))).toBe(expected)
+  })
+})
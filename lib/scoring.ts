@@ -0,0 +1,206 @@
+import { toNumberOrNull, type AnalysisResults, type PotentialIssue } from "@/lib/analysis-schema"
+import { moneyFactorToApr } from "@/lib/lease"
+
+export type RubricComponentId = "rate-fairness" | "fee-load" | "add-on-load" | "disclosure-completeness" | "risky-clauses"
+
+export interface RubricComponent {
+  id: RubricComponentId
+  label: string
+  /** Most points the component can contribute to the 100-point score */
+  weight: number
+  points: number
+  /** How the base points were arrived at, before issue deductions */
+  detail: string
+  /** The issues that took points off */
+  issues: PotentialIssue[]
+}
+
+export interface ScoreBreakdown {
+  total: number
+  components: RubricComponent[]
+}
+
+export const SCORE_RUBRIC: { id: RubricComponentId; label: string; weight: number }[] = [
+  { id: "rate-fairness", label: "Rate fairness", weight: 30 },
+  { id: "fee-load", label: "Fee load", weight: 20 },
+  { id: "add-on-load", label: "Add-on load", weight: 20 },
+  { id: "disclosure-completeness", label: "Disclosure completeness", weight: 15 },
+  { id: "risky-clauses", label: "Risky clauses", weight: 15 },
+]
+
+/** Share of a component's weight each issue takes off */
+const ISSUE_DEDUCTIONS = { high: 0.5, warning: 0.2, good: 0 }
+
+/** APRs at or below this earn full rate points, falling linearly to none at the ceiling */
+const FAIR_APR = 5
+const APR_CEILING = 18
+/** Dealer fees as a share of the price: full points at or below the first, none at the second */
+const FAIR_FEE_SHARE = 0.005
+const MAX_FEE_SHARE = 0.03
+/** Add-ons as a share of the price at which the component reaches zero */
+const MAX_ADD_ON_SHARE = 0.15
+
+const ADD_ON_TERM = /warrant|service contract|\bgap\b|protection|etch|tire|wheel|maintenance plan|appearance|nitrogen|theft|lojack|key replacement/i
+
+/** Assigns an issue to the rubric component it affects; the first match wins */
+const ISSUE_COMPONENTS: { id: RubricComponentId; pattern: RegExp }[] = [
+  { id: "disclosure-completeness", pattern: /disclos|do not add up|total sale price|not found|missing/i },
+  { id: "add-on-load", pattern: /add-on|warrant|service contract|\bgap\b|protection|packing|payment math|higher than the (?:loan|lease) terms/i },
+  { id: "risky-clauses", pattern: /mileage|arbitration|repossess|early termination|wear.and.tear|spot deliver|yo-yo/i },
+  { id: "fee-load", pattern: /fee|tax|registration|title/i },
+  { id: "rate-fairness", pattern: /\bapr\b|interest|\brates?\b|money factor|finance charge|markup/i },
+]
+
+/**
+ * The findings the computed checks and state rules make, recognized by issue
+ * title so the model's wording of the same finding matches too
+ */
+const FINDINGS: { id: string; pattern: RegExp }[] = [
+  { id: "documentation-fee", pattern: /\bdoc(?:umentation)? fee/i },
+  { id: "sales-tax", pattern: /sales tax/i },
+  { id: "title-and-registration", pattern: /\btitle\b.*\bregistration|registration fee/i },
+  { id: "payment-packing", pattern: /payment packing|packed payment|payment is higher than the (?:loan|lease) terms/i },
+  { id: "payment-shortfall", pattern: /payment is lower than the (?:loan|lease) terms|balloon/i },
+  { id: "missing-payment", pattern: /monthly payment (?:not found|is missing)|missing monthly payment/i },
+  { id: "disclosure-totals", pattern: /disclosure totals|total of payments|total sale price/i },
+  { id: "apr-mismatch", pattern: /\bapr\b.*\b(?:does not match|mismatch|inconsistent)|(?:mismatch|inconsistent)\w*\b.*\bapr\b/i },
+  { id: "excess-mileage", pattern: /excess.mileage|per.mile charge/i },
+]
+
+const findingOf = (issue: PotentialIssue) => FINDINGS.find(({ pattern }) => pattern.test(issue.title))?.id ?? null
+
+export function issueComponent(issue: PotentialIssue): RubricComponentId {
+  const text = `${issue.title} ${issue.description}`
+  return ISSUE_COMPONENTS.find(({ pattern }) => pattern.test(text))?.id ?? "risky-clauses"
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value))
+
+const percent = (share: number) => `${(share * 100).toFixed(1)}%`
+
+function rateFairness(results: AnalysisResults) {
+  const moneyFactor = results.lease?.moneyFactor
+  const apr =
+    results.contractType === "lease"
+      ? moneyFactor != null
+        ? moneyFactorToApr(moneyFactor)
+        : null
+      : (results.financials?.apr ?? results.tilaDisclosure?.apr ?? null)
+
+  if (apr == null) return { base: 0.5, detail: "No rate was found, so only half the points are given" }
+  return {
+    base: clamp01((APR_CEILING - apr) / (APR_CEILING - FAIR_APR)),
+    detail: `${apr.toFixed(2)}% APR${results.contractType === "lease" ? " equivalent" : ""}, scored against ${FAIR_APR}% (full points) to ${APR_CEILING}% (none)`,
+  }
+}
+
+/** The vehicle price, or the capitalized cost for a lease */
+export const priceOf = (results: AnalysisResults) =>
+  results.contractType === "lease" ? results.lease?.capitalizedCost : results.financials?.purchasePrice
+
+function feeLoad(results: AnalysisResults) {
+  const dealerFees = (results.fees?.documentationFee ?? 0) + (results.lease?.acquisitionFee ?? 0)
+  const price = priceOf(results)
+
+  if (dealerFees === 0) return { base: 1, detail: "No dealer documentation or acquisition fee was found" }
+  if (!price) return { base: 0.5, detail: "The price was not found, so fees could not be weighed against it" }
+
+  const share = dealerFees / price
+  return {
+    base: clamp01((MAX_FEE_SHARE - share) / (MAX_FEE_SHARE - FAIR_FEE_SHARE)),
+    detail: `Dealer fees are ${percent(share)} of the price`,
+  }
+}
+
+/** Sum of the priced optional products, such as warranties and GAP, among the contract terms */
+export function addOnTotal(results: AnalysisResults) {
+  return results.contractTerms
+    .filter((term) => ADD_ON_TERM.test(term.term))
+    .reduce((total, term) => total + (toNumberOrNull(term.value) ?? 0), 0)
+}
+
+function addOnLoad(results: AnalysisResults) {
+  const addOns = addOnTotal(results)
+  const price = priceOf(results)
+
+  if (addOns === 0) return { base: 1, detail: "No priced add-ons were found" }
+  if (!price) return { base: 0.5, detail: "The price was not found, so add-ons could not be weighed against it" }
+
+  const share = addOns / price
+  return { base: clamp01(1 - share / MAX_ADD_ON_SHARE), detail: `Add-ons are ${percent(share)} of the price` }
+}
+
+function disclosureCompleteness(results: AnalysisResults) {
+  const figures =
+    results.contractType === "lease"
+      ? [
+          results.lease?.capitalizedCost,
+          results.lease?.residualValue,
+          results.lease?.moneyFactor,
+          results.lease?.termMonths,
+          results.lease?.monthlyPayment,
+          results.lease?.mileageAllowance,
+        ]
+      : [
+          results.financials?.purchasePrice,
+          results.financials?.amountFinanced,
+          results.financials?.apr,
+          results.financials?.termMonths,
+          results.financials?.monthlyPayment,
+          results.tilaDisclosure ? 1 : null,
+        ]
+  const found = figures.filter((value) => value != null).length
+  return {
+    base: found / figures.length,
+    detail: `${found} of ${figures.length} key figures${results.contractType === "lease" ? "" : " and the Truth-in-Lending box"} were found`,
+  }
+}
+
+/**
+ * The issues that count against one component. The model often restates a
+ * finding the computed checks or the state rules also raise, e.g. a high
+ * documentation fee, so a model issue making the same finding as a check is
+ * dropped and the finding is only deducted once. Its other issues still count.
+ */
+function countedIssues(issues: PotentialIssue[]) {
+  const checked = new Set(
+    issues
+      .filter((issue) => issue.source !== "model" && issue.severity !== "good")
+      .map(findingOf)
+      .filter((finding) => finding !== null),
+  )
+  return issues.filter((issue) => {
+    if (issue.source !== "model") return true
+    const finding = findingOf(issue)
+    return finding === null || !checked.has(finding)
+  })
+}
+
+const BASES: Record<RubricComponentId, (results: AnalysisResults) => { base: number; detail: string }> = {
+  "rate-fairness": rateFairness,
+  "fee-load": feeLoad,
+  "add-on-load": addOnLoad,
+  "disclosure-completeness": disclosureCompleteness,
+  "risky-clauses": () => ({ base: 1, detail: "Full points unless the contract has concerning clauses" }),
+}
+
+/**
+ * Scores a contract out of 100 with a fixed, weighted rubric. Each component
+ * starts from the extracted figures and loses part of its weight for every
+ * concerning issue assigned to it, preferring the computed checks and state
+ * rules over the model where both raised one.
+ */
+export function scoreContract(results: AnalysisResults): ScoreBreakdown {
+  const components = SCORE_RUBRIC.map(({ id, label, weight }) => {
+    const { base, detail } = BASES[id](results)
+    const issues = countedIssues(results.potentialIssues.filter((issue) => issueComponent(issue) === id))
+    const deduction = issues.reduce((total, issue) => total + ISSUE_DEDUCTIONS[issue.severity], 0)
+    const points = Math.round(clamp01(base - deduction) * weight * 10) / 10
+    return { id, label, weight, points, detail, issues }
+  })
+
+  return {
+    total: Math.round(components.reduce((total, component) => total + component.points, 0)),
+    components,
+  }
+}
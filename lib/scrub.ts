@@ -0,0 +1,87 @@
+import { findPii, PII_KINDS, PII_MASKS, type PiiKind } from "@/lib/pii"
+
+/** `mask` replaces personal data with a placeholder such as `[SSN]`, `drop` removes it outright */
+export type ScrubPolicy = "mask" | "drop"
+
+export interface ScrubberOptions {
+  policy: ScrubPolicy
+  kinds: readonly PiiKind[]
+}
+
+export interface Scrubber {
+  scrubText(text: string): string
+  /** Scrubs every string in a JSON-like value, returning a copy */
+  scrub<T>(value: T): T
+}
+
+let cachedInstance: Scrubber | null | undefined
+
+export function createScrubber({ policy, kinds }: ScrubberOptions): Scrubber {
+  const scrubText = (text: string) => {
+    const matches = findPii(text, kinds)
+    if (matches.length === 0) return text
+
+    let result = ""
+    let position = 0
+    for (const match of matches) {
+      result += text.slice(position, match.start)
+      if (policy === "mask") {
+        result += PII_MASKS[match.kind]
+      } else {
+        // Drop the space before the match too so no double spaces are left behind
+        result = result.replace(/[ \t]+$/, "")
+      }
+      position = match.end
+    }
+    result += text.slice(position)
+    return policy === "drop" ? result.replace(/[ \t]+(?=[,.;:])/g, "") : result
+  }
+
+  const scrub = <T>(value: T): T => {
+    if (typeof value === "string") return scrubText(value) as T
+    if (Array.isArray(value)) return value.map(scrub) as T
+    if (value && typeof value === "object") {
+      return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, scrub(entry)])) as T
+    }
+    return value
+  }
+
+  return { scrubText, scrub }
+}
+
+/**
+ * Builds the scrubber selected by `PII_SCRUB_POLICY` (mask, drop or off,
+ * defaulting to mask). `PII_DETECTORS` limits it to a comma-separated list of
+ * detectors: email, ssn, phone, date-of-birth, street-address and account-number.
+ */
+export function createScrubberFromEnv(env: NodeJS.ProcessEnv = process.env): Scrubber | null {
+  const policy = (env.PII_SCRUB_POLICY || "mask").toLowerCase()
+  if (policy === "off") return null
+  if (policy !== "mask" && policy !== "drop") {
+    throw new Error(`Unknown PII scrub policy "${policy}"`)
+  }
+
+  const kinds = env.PII_DETECTORS
+    ? env.PII_DETECTORS.split(",")
+        .map((kind) => kind.trim().toLowerCase())
+        .filter(Boolean)
+    : [...PII_KINDS]
+  const unknown = kinds.filter((kind) => !(PII_KINDS as readonly string[]).includes(kind))
+  if (unknown.length > 0) {
+    throw new Error(`Unknown PII detector "${unknown[0]}"`)
+  }
+
+  return createScrubber({ policy, kinds: kinds as PiiKind[] })
+}
+
+function getScrubber(): Scrubber | null {
+  if (cachedInstance === undefined) {
+    cachedInstance = createScrubberFromEnv()
+  }
+  return cachedInstance
+}
+
+/** Scrubs a value on its way to the client or the logs, using the configured detectors and policy */
+export function scrubPii<T>(value: T): T {
+  return getScrubber()?.scrub(value) ?? value
+}
@@ -0,0 +1,152 @@
+import {
+  toNumberOrNull,
+  type AnalysisResults,
+  type ContractType,
+  type FeeBreakdown,
+  type LeaseTerms,
+  type LoanFinancials,
+  type TilaDisclosure,
+} from "@/lib/analysis-schema"
+import { applyComputedChecks, type ComputedCheckOptions } from "@/lib/computed-checks"
+
+interface FigureBlocks {
+  financials: LoanFinancials
+  fees: FeeBreakdown
+  tilaDisclosure: TilaDisclosure
+  lease: LeaseTerms
+}
+
+/** One of the extracted figures the deterministic checks run on */
+export type FigureField = {
+  [Block in keyof FigureBlocks]: { block: Block; key: keyof FigureBlocks[Block] }
+}[keyof FigureBlocks]
+
+const EMPTY_BLOCKS: FigureBlocks = {
+  financials: {
+    purchasePrice: null,
+    downPayment: null,
+    tradeInValue: null,
+    amountFinanced: null,
+    apr: null,
+    termMonths: null,
+    monthlyPayment: null,
+  },
+  fees: { documentationFee: null, salesTax: null, titleAndRegistration: null },
+  tilaDisclosure: { apr: null, financeCharge: null, amountFinanced: null, totalOfPayments: null, totalSalePrice: null },
+  lease: {
+    capitalizedCost: null,
+    capCostReduction: null,
+    residualValue: null,
+    moneyFactor: null,
+    acquisitionFee: null,
+    dispositionFee: null,
+    mileageAllowance: null,
+    excessMileageRate: null,
+    termMonths: null,
+    monthlyPayment: null,
+  },
+}
+
+/**
+ * Links the model's free-form term names to the figures behind them, so
+ * correcting a term row also corrects the number the checks use. The first
+ * matching pattern wins, so more specific names come first.
+ */
+const TERM_FIGURES: { pattern: RegExp; purchase?: FigureField; lease?: FigureField }[] = [
+  { pattern: /money factor/i, lease: { block: "lease", key: "moneyFactor" } },
+  { pattern: /residual/i, lease: { block: "lease", key: "residualValue" } },
+  { pattern: /cap(?:italized)? cost reduction|cap reduction/i, lease: { block: "lease", key: "capCostReduction" } },
+  { pattern: /cap(?:italized)? cost/i, lease: { block: "lease", key: "capitalizedCost" } },
+  { pattern: /acquisition fee/i, lease: { block: "lease", key: "acquisitionFee" } },
+  { pattern: /disposition fee/i, lease: { block: "lease", key: "dispositionFee" } },
+  { pattern: /excess mile|per mile|overage/i, lease: { block: "lease", key: "excessMileageRate" } },
+  { pattern: /mileage|miles per year/i, lease: { block: "lease", key: "mileageAllowance" } },
+  { pattern: /\bAPR\b|annual percentage rate|interest rate/i, purchase: { block: "financials", key: "apr" } },
+  { pattern: /amount financed/i, purchase: { block: "financials", key: "amountFinanced" } },
+  { pattern: /down payment|cash down/i, purchase: { block: "financials", key: "downPayment" } },
+  { pattern: /trade-?in(?! payoff)/i, purchase: { block: "financials", key: "tradeInValue" } },
+  {
+    pattern: /^(?!.*total).*(?:purchase|cash|vehicle|sale|selling) price/i,
+    purchase: { block: "financials", key: "purchasePrice" },
+  },
+  {
+    pattern: /monthly payment/i,
+    purchase: { block: "financials", key: "monthlyPayment" },
+    lease: { block: "lease", key: "monthlyPayment" },
+  },
+  {
+    pattern: /\bterm\b|number of payments/i,
+    purchase: { block: "financials", key: "termMonths" },
+    lease: { block: "lease", key: "termMonths" },
+  },
+  {
+    pattern: /doc(?:umentation)? fee|processing fee/i,
+    purchase: { block: "fees", key: "documentationFee" },
+    lease: { block: "fees", key: "documentationFee" },
+  },
+  { pattern: /sales tax/i, purchase: { block: "fees", key: "salesTax" }, lease: { block: "fees", key: "salesTax" } },
+  {
+    pattern: /title|registration/i,
+    purchase: { block: "fees", key: "titleAndRegistration" },
+    lease: { block: "fees", key: "titleAndRegistration" },
+  },
+]
+
+export function figureForTerm(term: string, contractType: ContractType): FigureField | null {
+  for (const entry of TERM_FIGURES) {
+    if (entry.pattern.test(term)) return entry[contractType] ?? null
+  }
+  return null
+}
+
+export const figurePath = (field: FigureField) => `${field.block}.${String(field.key)}`
+
+function setFigure(results: AnalysisResults, field: FigureField, value: number | null): AnalysisResults {
+  const block = { ...EMPTY_BLOCKS[field.block], ...results[field.block], [field.key]: value }
+  const path = figurePath(field)
+  return {
+    ...results,
+    [field.block]: block,
+    editedFields: results.editedFields?.includes(path) ? results.editedFields : [...(results.editedFields ?? []), path],
+  }
+}
+
+/** Corrects one extracted figure and re-runs the deterministic checks */
+export function applyFigureEdit(
+  results: AnalysisResults,
+  field: FigureField,
+  value: number | null,
+  options: ComputedCheckOptions = {},
+): AnalysisResults {
+  return applyComputedChecks(setFigure(results, field, value), options)
+}
+
+/**
+ * Replaces the value of a term row, marking it as edited by the user, updates
+ * the figure it stands for when it has one, and re-runs the deterministic checks.
+ */
+export function applyTermEdit(
+  results: AnalysisResults,
+  index: number,
+  value: string,
+  options: ComputedCheckOptions = {},
+): AnalysisResults {
+  const contractTerms = results.contractTerms.map((term, i) => {
+    if (i !== index) return term
+
+    const originalValue = term.originalValue ?? term.value
+    // Typing the original value back in undoes the edit
+    return value === originalValue
+      ? { ...term, value, userEdited: undefined, originalValue: undefined }
+      : { ...term, value, userEdited: true, originalValue }
+  })
+
+  let edited: AnalysisResults = { ...results, contractTerms }
+  const field = figureForTerm(results.contractTerms[index].term, results.contractType)
+  const number = toNumberOrNull(value)
+  if (field && number !== null) {
+    edited = setFigure(edited, field, number)
+  }
+
+  return applyComputedChecks(edited, options)
+}
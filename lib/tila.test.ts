@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest"
+import type { LoanFinancials, TilaDisclosure } from "@/lib/analysis-schema"
+import { checkTilaDisclosure, financeChargeTolerance, tilaDisclosureIssues } from "./tila"
+
+const financials: LoanFinancials = {
+  purchasePrice: 30_000,
+  downPayment: 3_000,
+  tradeInValue: null,
+  amountFinanced: 27_000,
+  apr: 6,
+  termMonths: 60,
+  monthlyPayment: 521.99,
+}
+
+// 27,000 at 6% over 60 months is 521.99 a month
+const box: TilaDisclosure = {
+  apr: 6,
+  financeCharge: 4_319.4,
+  amountFinanced: 27_000,
+  totalOfPayments: 31_319.4,
+  totalSalePrice: 34_319.4,
+}
+
+const titles = (disclosure: TilaDisclosure) => checkTilaDisclosure(disclosure, financials).map((check) => check.title)
+
+describe("checkTilaDisclosure", () => {
+  it("accepts a consistent box", () => {
+    expect(titles(box)).toEqual([])
+  })
+
+  it("allows the finance charge the Regulation Z tolerance", () => {
+    expect(financeChargeTolerance(800)).toBe(5)
+    expect(financeChargeTolerance(27_000)).toBe(10)
+    expect(titles({ ...box, financeCharge: box.financeCharge! + 9 })).toEqual([])
+    expect(titles({ ...box, financeCharge: box.financeCharge! + 2 })).toEqual([])
+  })
+
+  it("flags totals that are off by more than the tolerance", () => {
+    expect(titles({ ...box, financeCharge: box.financeCharge! + 11 })).toContain("Disclosure totals do not add up")
+  })
+
+  it("uses the smaller tolerance for small loans", () => {
+    const small = { apr: null, financeCharge: 50, amountFinanced: 900, totalOfPayments: 956, totalSalePrice: null }
+    expect(checkTilaDisclosure(small).map((check) => check.title)).toEqual(["Disclosure totals do not add up"])
+  })
+
+  it("flags an APR more than 1/8 point from the one the payments imply", () => {
+    expect(titles({ ...box, apr: 6.1 })).toEqual([])
+    expect(titles({ ...box, apr: 6.5 })).toEqual(["Disclosed APR does not match the payments"])
+  })
+
+  it("flags a Total Sale Price that does not match the payments and down payment", () => {
+    expect(titles({ ...box, totalSalePrice: box.totalSalePrice! + 5 })).toEqual([
+      "Total Sale Price does not match the payments",
+    ])
+  })
+})
+
+describe("tilaDisclosureIssues", () => {
+  it("raises each inconsistency as a high-severity computed issue", () => {
+    const issues = tilaDisclosureIssues({ ...box, apr: 9 }, financials)
+    expect(issues).toMatchObject([{ severity: "high", source: "computed" }])
+  })
+})
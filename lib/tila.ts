@@ -0,0 +1,75 @@
+import type { LoanFinancials, PotentialIssue, TilaDisclosure } from "@/lib/analysis-schema"
+import { formatCurrency, impliedApr, roundCents } from "@/lib/finance"
+
+/** Disclosed APR must be within 1/8 of a percentage point of the actual APR (12 CFR 1026.22(a)(2)) */
+export const APR_TOLERANCE = 0.125
+
+/**
+ * How far the disclosed Finance Charge may be off before Regulation Z treats it
+ * as inaccurate: $5 when $1,000 or less is financed, $10 above that (12 CFR 1026.18(d)(2))
+ */
+export const financeChargeTolerance = (amountFinanced: number) => (amountFinanced <= 1000 ? 5 : 10)
+
+/** Regulation Z sets no tolerance for the Total Sale Price, so only rounding each figure to the cent is allowed for */
+const ROUNDING_ALLOWANCE = 1
+
+export interface TilaCheck {
+  title: string
+  description: string
+}
+
+/**
+ * Cross-checks the federal Truth-in-Lending disclosure box. The four core
+ * figures must agree with each other: Total of Payments = Amount Financed +
+ * Finance Charge, the APR implied by the payments must match the disclosed
+ * APR, and Total Sale Price = Total of Payments + down payment.
+ */
+export function checkTilaDisclosure(box: TilaDisclosure, financials?: LoanFinancials): TilaCheck[] {
+  const problems: TilaCheck[] = []
+  const { apr, financeCharge, amountFinanced, totalOfPayments, totalSalePrice } = box
+
+  if (amountFinanced != null && financeCharge != null && totalOfPayments != null) {
+    const expectedTotal = roundCents(amountFinanced + financeCharge)
+    const tolerance = financeChargeTolerance(amountFinanced)
+    if (Math.abs(expectedTotal - totalOfPayments) > tolerance) {
+      problems.push({
+        title: "Disclosure totals do not add up",
+        description: `The Amount Financed (${formatCurrency(amountFinanced)}) plus the Finance Charge (${formatCurrency(financeCharge)}) is ${formatCurrency(expectedTotal)}, but the Total of Payments is disclosed as ${formatCurrency(totalOfPayments)}. Federal rules allow the Finance Charge to be off by at most ${formatCurrency(tolerance)}.`,
+      })
+    }
+  }
+
+  const termMonths = financials?.termMonths
+  if (apr != null && amountFinanced != null && amountFinanced > 0 && totalOfPayments != null && termMonths) {
+    const actualApr = impliedApr(amountFinanced, totalOfPayments / termMonths, termMonths)
+    if (Math.abs(actualApr - apr) > APR_TOLERANCE) {
+      problems.push({
+        title: "Disclosed APR does not match the payments",
+        description: `Repaying ${formatCurrency(amountFinanced)} with ${termMonths} payments totaling ${formatCurrency(totalOfPayments)} works out to an APR of about ${actualApr.toFixed(2)}%, not the ${apr}% disclosed. Federal rules allow a difference of at most ${APR_TOLERANCE} percentage points.`,
+      })
+    }
+  }
+
+  const downPayment = (financials?.downPayment ?? 0) + (financials?.tradeInValue ?? 0)
+  if (totalSalePrice != null && totalOfPayments != null && financials?.downPayment != null) {
+    const expectedSalePrice = roundCents(totalOfPayments + downPayment)
+    if (Math.abs(expectedSalePrice - totalSalePrice) > ROUNDING_ALLOWANCE) {
+      problems.push({
+        title: "Total Sale Price does not match the payments",
+        description: `The Total of Payments (${formatCurrency(totalOfPayments)}) plus the down payment (${formatCurrency(downPayment)}) is ${formatCurrency(expectedSalePrice)}, but the Total Sale Price is disclosed as ${formatCurrency(totalSalePrice)}.`,
+      })
+    }
+  }
+
+  return problems
+}
+
+export function tilaDisclosureIssues(box: TilaDisclosure, financials?: LoanFinancials): PotentialIssue[] {
+  return checkTilaDisclosure(box, financials).map((problem) => ({
+    ...problem,
+    severity: "high",
+    recommendation:
+      "Do not sign until the dealer explains the discrepancy and provides a corrected Truth-in-Lending disclosure.",
+    source: "computed",
+  }))
+}
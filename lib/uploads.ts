@@ -0,0 +1,74 @@
+export const MAX_PAGES = 10
+
+/** Combined size budget for all pages of one contract (20MB) */
+export const MAX_TOTAL_UPLOAD_BYTES = 20 * 1024 * 1024
+
+/** Largest multipart body read for an upload: the page budget plus room for the form's other fields */
+export const MAX_UPLOAD_BODY_BYTES = MAX_TOTAL_UPLOAD_BYTES + 1024 * 1024
+
+export const ACCEPTED_FILE_TYPES = ".pdf,.jpg,.jpeg,.png"
+
+export interface UploadedFile {
+  name: string
+  mimeType: string
+  bytes: Uint8Array
+}
+
+/** An upload that breaks one of the limits above; its message is safe to show to the user */
+export class UploadError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "UploadError"
+  }
+}
+
+export function isSupportedFileType(type: string) {
+  return type.startsWith("image/") || type === "application/pdf"
+}
+
+export function formatFileSize(bytes: number) {
+  return `${(bytes / (1024 * 1024)).toFixed(1)}MB`
+}
+
+/**
+ * Checks the page count, combined size and file types of an upload, throwing
+ * an `UploadError` when one of them is out of bounds.
+ */
+export function validateContractFiles(files: File[]) {
+  if (files.length === 0) {
+    throw new UploadError("No file provided")
+  }
+
+  if (files.length > MAX_PAGES) {
+    throw new UploadError(`A contract can have at most ${MAX_PAGES} pages`)
+  }
+
+  const totalSize = files.reduce((sum, file) => sum + file.size, 0)
+  if (totalSize > MAX_TOTAL_UPLOAD_BYTES) {
+    throw new UploadError(`Combined file size exceeds the ${formatFileSize(MAX_TOTAL_UPLOAD_BYTES)} limit`)
+  }
+
+  if (files.some((file) => !isSupportedFileType(file.type))) {
+    throw new UploadError("Only image and PDF files are supported")
+  }
+}
+
+/**
+ * Reads the uploaded pages from the form, in the order they were appended.
+ * Accepts the legacy single `file` field as well as repeated `files` fields.
+ */
+export async function readContractFiles(formData: FormData): Promise<UploadedFile[]> {
+  const files = [...formData.getAll("files"), ...formData.getAll("file")].filter(
+    (entry): entry is File => typeof entry !== "string",
+  )
+
+  validateContractFiles(files)
+
+  return Promise.all(
+    files.map(async (file) => ({
+      name: file.name,
+      mimeType: file.type,
+      bytes: new Uint8Array(await file.arrayBuffer()),
+    })),
+  )
+}